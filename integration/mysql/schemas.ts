@@ -1,4 +1,4 @@
-import { int, mysqlTable, text } from 'drizzle-orm/mysql-core';
+import { bigint, datetime, int, json, mysqlTable, text } from 'drizzle-orm/mysql-core';
 
 export const users = mysqlTable('users', {
   id: int('id').primaryKey().autoincrement(),
@@ -6,10 +6,40 @@ export const users = mysqlTable('users', {
   email: text('email').notNull(),
   age: int('age'),
   status: text('status').notNull().default('ACTIVE'),
+  settings: json('settings'),
 });
 
 export const posts = mysqlTable('posts', {
   id: int('id').primaryKey().autoincrement(),
   title: text('title').notNull(),
   authorId: int('author_id').references(() => users.id),
+  publishedAt: datetime('published_at'),
+  views: bigint('views', { mode: 'bigint' }),
+});
+
+export const comments = mysqlTable('comments', {
+  id: int('id').primaryKey().autoincrement(),
+  body: text('body').notNull(),
+  postId: int('post_id').references(() => posts.id),
+  commentableType: text('commentable_type'),
+  commentableId: int('commentable_id'),
+});
+
+export const videos = mysqlTable('videos', {
+  id: int('id').primaryKey().autoincrement(),
+  url: text('url').notNull(),
+});
+
+export const roles = mysqlTable('roles', {
+  id: int('id').primaryKey().autoincrement(),
+  name: text('name').notNull(),
+});
+
+export const usersToRoles = mysqlTable('users_to_roles', {
+  userId: int('user_id')
+    .notNull()
+    .references(() => users.id),
+  roleId: int('role_id')
+    .notNull()
+    .references(() => roles.id),
 });
@@ -23,7 +23,8 @@ export function setupMysql(): void {
         name TEXT NOT NULL,
         email TEXT NOT NULL,
         age INT,
-        status TEXT NOT NULL DEFAULT ('ACTIVE')
+        status TEXT NOT NULL DEFAULT ('ACTIVE'),
+        settings JSON
       )
     `);
 
@@ -31,17 +32,59 @@ export function setupMysql(): void {
       CREATE TABLE IF NOT EXISTS posts (
         id INT PRIMARY KEY AUTO_INCREMENT,
         title TEXT NOT NULL,
-        author_id INT REFERENCES users(id)
+        author_id INT REFERENCES users(id),
+        published_at DATETIME,
+        views BIGINT,
+        FULLTEXT (title)
+      )
+    `);
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS comments (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        body TEXT NOT NULL,
+        post_id INT REFERENCES posts(id),
+        commentable_type TEXT,
+        commentable_id INT
+      )
+    `);
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS videos (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        url TEXT NOT NULL
+      )
+    `);
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS roles (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        name TEXT NOT NULL
+      )
+    `);
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS users_to_roles (
+        user_id INT NOT NULL REFERENCES users(id),
+        role_id INT NOT NULL REFERENCES roles(id)
       )
     `);
   });
 
   beforeEach(async () => {
+    await db.execute(sql`TRUNCATE TABLE users_to_roles`);
+    await db.execute(sql`TRUNCATE TABLE roles`);
+    await db.execute(sql`TRUNCATE TABLE videos`);
+    await db.execute(sql`TRUNCATE TABLE comments`);
     await db.execute(sql`TRUNCATE TABLE posts`);
     await db.execute(sql`TRUNCATE TABLE users`);
   });
 
   afterAll(async () => {
+    await db.execute(sql`DROP TABLE IF EXISTS users_to_roles`);
+    await db.execute(sql`DROP TABLE IF EXISTS roles`);
+    await db.execute(sql`DROP TABLE IF EXISTS videos`);
+    await db.execute(sql`DROP TABLE IF EXISTS comments`);
     await db.execute(sql`DROP TABLE IF EXISTS posts`);
     await db.execute(sql`DROP TABLE IF EXISTS users`);
     await connection.end();
@@ -1,16 +1,26 @@
-import { eq, sql } from 'drizzle-orm';
+import { desc, eq, like, ne, sql } from 'drizzle-orm';
 import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
 import type { DataSchema, PaginationPayload, SelectQueryPayload } from 'zod-paginate';
 import {
   applyDrizzlePaginationOnQuery,
+  buildCustomFilter,
+  defineComputedField,
+  defineFilterOperator,
+  defineJsonField,
+  defineMorphTo,
   defineRelation,
   generatePaginationQuery,
   generateSelectQuery,
+  MixedFilterScopeError,
 } from '../../src/drizzle-adapter';
-import { posts, users } from './schemas';
+import type { DrizzlePaginationPayload } from '../../src/drizzle-adapter';
+import { comments, posts, roles, users, usersToRoles, videos } from './schemas';
 import { db, seedUsers, setupPg } from './setup';
 
-function toParsed(pagination: PaginationPayload<DataSchema>): PaginationPayload<DataSchema> {
+function toParsed(
+  pagination: DrizzlePaginationPayload<DataSchema>,
+): DrizzlePaginationPayload<DataSchema> {
   return pagination;
 }
 
@@ -543,6 +553,1101 @@ describe('PostgreSQL integration', () => {
     }
   });
 
+  it('execute() assembles nested relations scoped level by level', async () => {
+    await seedUsers();
+
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES
+        ('Post A1', 1), ('Post A2', 1), ('Post B1', 2)
+    `);
+    await db.execute(sql`
+      INSERT INTO comments (body, post_id) VALUES
+        ('First', 1), ('Second', 1), ('Circle', 1), ('Hidden', 2), ('Third', 3)
+    `);
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 2,
+      select: ['id', 'name', 'posts.title', 'posts.comments.body'],
+      sortBy: [
+        { property: 'id', direction: 'ASC' },
+        { property: 'posts.comments.body', direction: 'DESC' },
+      ],
+      filters: {
+        type: 'filter',
+        field: 'posts.comments.body',
+        condition: { group: 'body', op: '$ilike', value: 'ir' },
+      },
+    });
+
+    const result = generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (select) => db.select(select).from(users),
+      fields: { id: users.id, name: users.name },
+      relations: [
+        defineRelation({
+          relationName: 'posts',
+          fields: { title: posts.title },
+          foreignKey: posts.authorId,
+          parentKey: users.id,
+          buildQuery: (select) => db.select(select).from(posts),
+          relations: [
+            defineRelation({
+              relationName: 'comments',
+              fields: { body: comments.body },
+              foreignKey: comments.postId,
+              parentKey: posts.id,
+              buildQuery: (select) => db.select(select).from(comments),
+            }),
+          ],
+        }),
+      ],
+    });
+
+    const { data } = await result.execute();
+
+    expect(data).toEqual([
+      {
+        id: 1,
+        name: 'Alice',
+        posts: [
+          { title: 'Post A1', comments: [{ body: 'First' }, { body: 'Circle' }] },
+          { title: 'Post A2', comments: [] },
+        ],
+      },
+      { id: 2, name: 'Bob', posts: [{ title: 'Post B1', comments: [{ body: 'Third' }] }] },
+    ]);
+  });
+
+  it('execute() assembles many-to-many relations through a junction table', async () => {
+    await seedUsers();
+
+    await db.execute(sql`INSERT INTO roles (name) VALUES ('admin'), ('editor'), ('viewer')`);
+    await db.execute(sql`
+      INSERT INTO users_to_roles (user_id, role_id) VALUES
+        (1, 1), (1, 2), (2, 2), (2, 3), (3, 3)
+    `);
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 3,
+      select: ['id', 'name', 'roles.name'],
+      sortBy: [
+        { property: 'id', direction: 'ASC' },
+        { property: 'roles.name', direction: 'DESC' },
+      ],
+      filters: {
+        type: 'filter',
+        field: 'roles.name',
+        condition: { group: 'name', op: '$in', value: ['admin', 'editor'] },
+      },
+    });
+
+    const result = generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (select) => db.select(select).from(users),
+      fields: { id: users.id, name: users.name },
+      relations: [
+        defineRelation({
+          relationName: 'roles',
+          fields: { name: roles.name },
+          foreignKey: roles.id,
+          parentKey: users.id,
+          through: {
+            table: usersToRoles,
+            parentKey: usersToRoles.userId,
+            childKey: usersToRoles.roleId,
+          },
+          buildQuery: (select) => db.select(select).from(roles),
+        }),
+      ],
+    });
+
+    const { data } = await result.execute();
+
+    expect(data).toEqual([
+      { id: 1, name: 'Alice', roles: [{ name: 'editor' }, { name: 'admin' }] },
+      { id: 2, name: 'Bob', roles: [{ name: 'editor' }] },
+      { id: 3, name: 'Charlie', roles: [] },
+    ]);
+  });
+
+  it('execute() attaches belongsTo relations from the parent foreign key', async () => {
+    await seedUsers();
+
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES
+        ('Post A1', 1), ('Post A2', 1), ('Post B1', 2), ('Orphan', NULL)
+    `);
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+      select: ['title', 'author.name'],
+      sortBy: [{ property: 'id', direction: 'ASC' }],
+    });
+
+    const result = generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (select) => db.select(select).from(posts),
+      fields: { id: posts.id, title: posts.title },
+      relations: [
+        defineRelation({
+          relationName: 'author',
+          kind: 'belongsTo',
+          fields: { name: users.name },
+          foreignKey: posts.authorId,
+          ownerKey: users.id,
+          buildQuery: (select) => db.select(select).from(users),
+        }),
+      ],
+    });
+
+    const { data } = await result.execute();
+
+    expect(data).toEqual([
+      { title: 'Post A1', author: { name: 'Alice' } },
+      { title: 'Post A2', author: { name: 'Alice' } },
+      { title: 'Post B1', author: { name: 'Bob' } },
+      { title: 'Orphan', author: null },
+    ]);
+  });
+
+  it('execute() limits relation rows per parent in SQL', async () => {
+    await seedUsers();
+
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES
+        ('Post A1', 1), ('Post A2', 1), ('Post A3', 1), ('Post B1', 2)
+    `);
+    await db.execute(sql`INSERT INTO roles (name) VALUES ('admin'), ('editor'), ('viewer')`);
+    await db.execute(sql`
+      INSERT INTO users_to_roles (user_id, role_id) VALUES
+        (1, 1), (1, 2), (2, 2), (2, 3)
+    `);
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 2,
+      select: ['id', 'posts.title', 'roles.name'],
+      sortBy: [
+        { property: 'id', direction: 'ASC' },
+        { property: 'posts.title', direction: 'DESC' },
+        { property: 'roles.name', direction: 'ASC' },
+      ],
+    });
+
+    const result = generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (select) => db.select(select).from(users),
+      fields: { id: users.id },
+      relations: [
+        defineRelation({
+          relationName: 'posts',
+          fields: { title: posts.title },
+          foreignKey: posts.authorId,
+          parentKey: users.id,
+          limit: 2,
+          buildQuery: (select) => db.select(select).from(posts),
+        }),
+        defineRelation({
+          relationName: 'roles',
+          fields: { name: roles.name },
+          foreignKey: roles.id,
+          parentKey: users.id,
+          through: {
+            table: usersToRoles,
+            parentKey: usersToRoles.userId,
+            childKey: usersToRoles.roleId,
+          },
+          limit: 1,
+          buildQuery: (select) => db.select(select).from(roles),
+        }),
+      ],
+    });
+
+    const { data } = await result.execute();
+
+    expect(data).toEqual([
+      {
+        id: 1,
+        posts: [{ title: 'Post A3' }, { title: 'Post A2' }],
+        roles: [{ name: 'admin' }],
+      },
+      { id: 2, posts: [{ title: 'Post B1' }], roles: [{ name: 'editor' }] },
+    ]);
+  });
+
+  it('execute() attaches relation aggregates computed by a grouped query', async () => {
+    await seedUsers();
+
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES
+        ('Post A1', 1), ('Post A2', 1), ('Draft A3', 1), ('Post B1', 2)
+    `);
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 3,
+      select: ['id', 'posts._count', 'posts.id._sum', 'posts.title._max'],
+      sortBy: [{ property: 'id', direction: 'ASC' }],
+      filters: {
+        type: 'filter',
+        field: 'posts.title',
+        condition: { group: 'title', op: '$sw', value: 'Post' },
+      },
+    });
+
+    const result = generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (select) => db.select(select).from(users),
+      fields: { id: users.id },
+      relations: [
+        defineRelation({
+          relationName: 'posts',
+          fields: { id: posts.id, title: posts.title },
+          foreignKey: posts.authorId,
+          parentKey: users.id,
+          aggregates: { count: true, sum: ['id'], max: ['title'] },
+          buildQuery: (select) => db.select(select).from(posts),
+        }),
+      ],
+    });
+
+    const { data } = await result.execute();
+
+    expect(data).toEqual([
+      { id: 1, posts__count: 2, posts_id__sum: 3, posts_title__max: 'Post A2' },
+      { id: 2, posts__count: 1, posts_id__sum: 4, posts_title__max: 'Post B1' },
+      { id: 3, posts__count: 0, posts_id__sum: null, posts_title__max: null },
+    ]);
+  });
+
+  it('execute() filters parents by relation conditions with filterMode "parent"', async () => {
+    await seedUsers();
+
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES
+        ('Post A1', 1), ('Draft A2', 1), ('Post B1', 2), ('Draft C1', 3)
+    `);
+
+    const postsRelation = defineRelation({
+      relationName: 'posts',
+      fields: { title: posts.title },
+      foreignKey: posts.authorId,
+      parentKey: users.id,
+      filterMode: 'parent',
+      buildQuery: (select) => db.select(select).from(posts),
+    });
+
+    const withPosts = await generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['id', 'posts.title'],
+        sortBy: [
+          { property: 'id', direction: 'ASC' },
+          { property: 'posts.title', direction: 'ASC' },
+        ],
+        filters: {
+          type: 'filter',
+          field: 'posts.title',
+          condition: { group: 'title', op: '$sw', value: 'Post' },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id },
+        relations: [postsRelation],
+      },
+    ).execute();
+
+    // Parents are filtered; their related rows are not.
+    expect(withPosts.data).toEqual([
+      { id: 1, posts: [{ title: 'Draft A2' }, { title: 'Post A1' }] },
+      { id: 2, posts: [{ title: 'Post B1' }] },
+    ]);
+    expect(withPosts.pagination).toEqual(expect.objectContaining({ totalItems: 2 }));
+
+    const withoutPosts = await generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['id'],
+        sortBy: [{ property: 'id', direction: 'ASC' }],
+        filters: {
+          type: 'filter',
+          field: 'posts.title',
+          condition: { group: 'title', op: '$sw', value: 'Post', not: true },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id },
+        relations: [postsRelation],
+      },
+    ).execute();
+
+    expect(withoutPosts.data.map((row) => row.id)).toEqual([3, 4, 5]);
+    expect(withoutPosts.pagination).toEqual(expect.objectContaining({ totalItems: 3 }));
+  });
+
+  it('execute() keeps or semantics across main and relation fields with mixedOrFilters "exists"', async () => {
+    await seedUsers();
+
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES
+        ('Post A1', 1), ('Spam B1', 2), ('Post B2', 2), ('Post C1', 3)
+    `);
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+      select: ['id'],
+      sortBy: [{ property: 'id', direction: 'ASC' }],
+      filters: {
+        type: 'or',
+        items: [
+          {
+            type: 'filter',
+            field: 'status',
+            condition: { group: 'status', op: '$eq', value: 'BANNED' },
+          },
+          {
+            type: 'filter',
+            field: 'posts.title',
+            condition: { group: 'title', op: '$sw', value: 'Spam' },
+          },
+        ],
+      },
+    });
+
+    const postsRelation = defineRelation({
+      relationName: 'posts',
+      fields: { title: posts.title },
+      foreignKey: posts.authorId,
+      parentKey: users.id,
+      buildQuery: (select) => db.select(select).from(posts),
+    });
+
+    expect(() =>
+      generatePaginationQuery(parsed, {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id, status: users.status },
+        relations: [postsRelation],
+      }),
+    ).toThrow(MixedFilterScopeError);
+
+    const { data, pagination } = await generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (select) => db.select(select).from(users),
+      fields: { id: users.id, status: users.status },
+      mixedOrFilters: 'exists',
+      relations: [postsRelation],
+    }).execute();
+
+    expect(data.map((row) => row.id)).toEqual([2, 5]);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 2 }));
+  });
+
+  it('execute() sorts parents by a relation aggregate across cursor pages', async () => {
+    await seedUsers();
+
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES
+        ('Post A1', 1), ('Post A2', 1), ('Post A3', 1), ('Post C1', 3), ('Post C2', 3), ('Post B1', 2)
+    `);
+
+    const postsRelation = defineRelation({
+      relationName: 'posts',
+      fields: { title: posts.title },
+      foreignKey: posts.authorId,
+      parentKey: users.id,
+      aggregates: { count: true },
+      buildQuery: (select) => db.select(select).from(posts),
+    });
+
+    const fetchPage = async (
+      cursor?: string,
+    ): Promise<{ ids: unknown[]; nextCursor: string | null }> => {
+      const parsed: PaginationPayload<DataSchema, 'CURSOR'> = {
+        type: 'CURSOR',
+        limit: 2,
+        cursor,
+        cursorProperty: 'id',
+        select: ['id'],
+        sortBy: [{ property: 'posts._count', direction: 'DESC' }],
+      };
+
+      const { data, pagination } = await generatePaginationQuery(parsed, {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id },
+        relations: [postsRelation],
+      }).execute();
+      return { ids: data.map((row) => row.id), nextCursor: pagination.nextCursor };
+    };
+
+    // Ties on the post count fall back to the id, in the same direction.
+    const firstPage = await fetchPage();
+    expect(firstPage.ids).toEqual([1, 3]);
+    const secondPage = await fetchPage(firstPage.nextCursor ?? undefined);
+    expect(secondPage.ids).toEqual([2, 5]);
+    const thirdPage = await fetchPage(secondPage.nextCursor ?? undefined);
+    expect(thirdPage.ids).toEqual([4]);
+  });
+
+  it('execute() walks cursor pages over a nullable sort column, NULLs last', async () => {
+    await seedUsers();
+    await db.execute(sql`UPDATE users SET age = NULL WHERE id IN (2, 4)`);
+
+    const fetchPage = async (
+      cursor?: string,
+    ): Promise<{ ids: unknown[]; nextCursor: string | null; previousCursor: string | null }> => {
+      const parsed: PaginationPayload<DataSchema, 'CURSOR'> = {
+        type: 'CURSOR',
+        limit: 2,
+        cursor,
+        cursorProperty: 'id',
+        select: ['id'],
+        sortBy: [{ property: 'age', direction: 'ASC' }],
+      };
+
+      const { data, pagination } = await generatePaginationQuery(parsed, {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id, age: users.age },
+      }).execute();
+      return {
+        ids: data.map((row) => row.id),
+        nextCursor: pagination.nextCursor,
+        previousCursor: pagination.previousCursor,
+      };
+    };
+
+    const firstPage = await fetchPage();
+    expect(firstPage.ids).toEqual([5, 1]);
+    const secondPage = await fetchPage(firstPage.nextCursor ?? undefined);
+    expect(secondPage.ids).toEqual([3, 2]);
+    // The cursor of Bob holds a NULL age: the adapter reads back its own token.
+    const thirdPage = await fetchPage(secondPage.nextCursor ?? undefined);
+    expect(thirdPage.ids).toEqual([4]);
+    const backPage = await fetchPage(thirdPage.previousCursor ?? undefined);
+    expect(backPage.ids).toEqual([3, 2]);
+  });
+
+  it('execute() sorts parents without related rows last on a NULL aggregate across cursor pages', async () => {
+    await seedUsers();
+
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES ('Post A1', 1), ('Post A2', 1), ('Post C1', 3)
+    `);
+
+    const postsRelation = defineRelation({
+      relationName: 'posts',
+      fields: { title: posts.title },
+      foreignKey: posts.authorId,
+      parentKey: users.id,
+      aggregates: { max: ['title'] },
+      buildQuery: (select) => db.select(select).from(posts),
+    });
+
+    const fetchPage = async (
+      cursor?: string,
+    ): Promise<{ ids: unknown[]; nextCursor: string | null; previousCursor: string | null }> => {
+      const parsed: PaginationPayload<DataSchema, 'CURSOR'> = {
+        type: 'CURSOR',
+        limit: 2,
+        cursor,
+        cursorProperty: 'id',
+        select: ['id'],
+        sortBy: [{ property: 'posts.title._max', direction: 'DESC' }],
+      };
+
+      const { data, pagination } = await generatePaginationQuery(parsed, {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id },
+        relations: [postsRelation],
+      }).execute();
+      return {
+        ids: data.map((row) => row.id),
+        nextCursor: pagination.nextCursor,
+        previousCursor: pagination.previousCursor,
+      };
+    };
+
+    // Users 2, 4 and 5 have no posts: their NULL max sorts after every title.
+    const firstPage = await fetchPage();
+    expect(firstPage.ids).toEqual([3, 1]);
+    const secondPage = await fetchPage(firstPage.nextCursor ?? undefined);
+    expect(secondPage.ids).toEqual([5, 4]);
+    const thirdPage = await fetchPage(secondPage.nextCursor ?? undefined);
+    expect(thirdPage.ids).toEqual([2]);
+    const backPage = await fetchPage(thirdPage.previousCursor ?? undefined);
+    expect(backPage.ids).toEqual([5, 4]);
+  });
+
+  it('execute() embeds relations as typed JSON in the main query with strategy "json"', async () => {
+    await seedUsers();
+
+    await db.insert(posts).values([
+      { title: 'Post A1', authorId: 1 },
+      {
+        title: 'Post A2',
+        authorId: 1,
+        publishedAt: new Date('2024-01-02T03:04:05.000Z'),
+        views: 5n,
+      },
+      {
+        title: 'Post A3',
+        authorId: 1,
+        publishedAt: new Date('2024-02-03T04:05:06.000Z'),
+        views: 9007199254740993n,
+      },
+      { title: 'Draft B1', authorId: 2 },
+    ]);
+    await db.insert(comments).values([{ body: 'Nice', postId: 3 }]);
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 2,
+        select: [
+          'id',
+          'posts.title',
+          'posts.publishedAt',
+          'posts.views',
+          'posts._count',
+          'posts.comments.body',
+        ],
+        sortBy: [{ property: 'id', direction: 'ASC' }],
+        filters: {
+          type: 'filter',
+          field: 'posts.title',
+          condition: { group: 'title', op: '$sw', value: 'Post' },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: posts.title, publishedAt: posts.publishedAt, views: posts.views },
+            foreignKey: posts.authorId,
+            parentKey: users.id,
+            strategy: 'json',
+            orderBy: [desc(posts.id)],
+            limit: 2,
+            aggregates: { count: true },
+            relations: [
+              defineRelation({
+                relationName: 'comments',
+                fields: { body: comments.body },
+                foreignKey: comments.postId,
+                parentKey: posts.id,
+                buildQuery: (select) => db.select(select).from(comments),
+              }),
+            ],
+            buildQuery: (select) => db.select(select).from(posts),
+          }),
+        ],
+      },
+    );
+
+    // Everything comes from the main query: no relation query is run.
+    expect(result.relationQueries).toEqual([]);
+
+    const { data, pagination } = await result.execute();
+
+    expect(data).toEqual([
+      {
+        id: 1,
+        posts: [
+          {
+            title: 'Post A3',
+            publishedAt: new Date('2024-02-03T04:05:06.000Z'),
+            views: 9007199254740993n,
+            comments: [{ body: 'Nice' }],
+          },
+          {
+            title: 'Post A2',
+            publishedAt: new Date('2024-01-02T03:04:05.000Z'),
+            views: 5n,
+            comments: [],
+          },
+        ],
+        posts__count: 3,
+      },
+      { id: 2, posts: [], posts__count: 0 },
+    ]);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 5 }));
+  });
+
+  it('execute() scopes relation queries in chunks of relationChunkSize', async () => {
+    await seedUsers();
+
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES
+        ('Post A1', 1), ('Post B1', 2), ('Post C1', 3), ('Post D1', 4), ('Post E1', 5), ('Post A2', 1)
+    `);
+
+    const { data } = await generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['id', 'posts.title'],
+        sortBy: [
+          { property: 'id', direction: 'ASC' },
+          { property: 'posts.title', direction: 'ASC' },
+        ],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: posts.title },
+            foreignKey: posts.authorId,
+            parentKey: users.id,
+            buildQuery: (select) => db.select(select).from(posts),
+          }),
+        ],
+        relationChunkSize: 2,
+        relationConcurrency: 1,
+      },
+    ).execute();
+
+    expect(data).toEqual([
+      { id: 1, posts: [{ title: 'Post A1' }, { title: 'Post A2' }] },
+      { id: 2, posts: [{ title: 'Post B1' }] },
+      { id: 3, posts: [{ title: 'Post C1' }] },
+      { id: 4, posts: [{ title: 'Post D1' }] },
+      { id: 5, posts: [{ title: 'Post E1' }] },
+    ]);
+  });
+
+  it('execute() scopes polymorphic relations by their type column', async () => {
+    await seedUsers();
+
+    await db.insert(posts).values([
+      { title: 'Post A1', authorId: 1 },
+      { title: 'Post B1', authorId: 2 },
+    ]);
+    await db.insert(videos).values([{ url: 'a1.mp4' }]);
+    await db.insert(comments).values([
+      { body: 'On post 1', commentableType: 'post', commentableId: 1 },
+      { body: 'On video 1', commentableType: 'video', commentableId: 1 },
+      { body: 'On post 2', commentableType: 'post', commentableId: 2 },
+    ]);
+
+    const { data } = await generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['id', 'comments.body', 'comments._count'],
+        sortBy: [{ property: 'id', direction: 'ASC' }],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(posts),
+        fields: { id: posts.id },
+        relations: [
+          defineRelation({
+            relationName: 'comments',
+            fields: { body: comments.body },
+            foreignKey: comments.commentableId,
+            parentKey: posts.id,
+            discriminator: { column: comments.commentableType, value: 'post' },
+            aggregates: { count: true },
+            buildQuery: (select) => db.select(select).from(comments),
+          }),
+        ],
+      },
+    ).execute();
+
+    expect(data).toEqual([
+      { id: 1, comments: [{ body: 'On post 1' }], comments__count: 1 },
+      { id: 2, comments: [{ body: 'On post 2' }], comments__count: 1 },
+    ]);
+  });
+
+  it('execute() dispatches morphTo relations to the target of each row type', async () => {
+    await seedUsers();
+
+    await db.insert(posts).values([
+      { title: 'Post A1', authorId: 1 },
+      { title: 'Post B1', authorId: 2 },
+    ]);
+    await db.insert(videos).values([{ url: 'a1.mp4' }]);
+    await db.insert(comments).values([
+      { body: 'On post 1', commentableType: 'post', commentableId: 1 },
+      { body: 'On video 1', commentableType: 'video', commentableId: 1 },
+      { body: 'On post 2', commentableType: 'post', commentableId: 2 },
+      { body: 'On photo 1', commentableType: 'photo', commentableId: 1 },
+    ]);
+
+    const { data } = await generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['id', 'commentable.title', 'commentable.url'],
+        sortBy: [{ property: 'id', direction: 'ASC' }],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(comments),
+        fields: { id: comments.id },
+        relations: [
+          defineMorphTo({
+            relationName: 'commentable',
+            typeKey: comments.commentableType,
+            foreignKey: comments.commentableId,
+            targets: {
+              post: {
+                fields: { title: posts.title },
+                ownerKey: posts.id,
+                buildQuery: (select) => db.select(select).from(posts),
+              },
+              video: {
+                fields: { url: videos.url },
+                ownerKey: videos.id,
+                buildQuery: (select) => db.select(select).from(videos),
+              },
+            },
+          }),
+        ],
+      },
+    ).execute();
+
+    expect(data).toEqual([
+      { id: 1, commentable: { title: 'Post A1' } },
+      { id: 2, commentable: { url: 'a1.mp4' } },
+      { id: 3, commentable: { title: 'Post B1' } },
+      { id: 4, commentable: null },
+    ]);
+  });
+
+  it('execute() applies baseWhere and relation where to pages, aggregates and counts', async () => {
+    await seedUsers();
+
+    await db.insert(posts).values([
+      { title: 'Post A1', authorId: 1 },
+      { title: 'Draft A2', authorId: 1 },
+      { title: 'Post B1', authorId: 2 },
+      { title: 'Post E1', authorId: 5 },
+    ]);
+
+    const { data, pagination } = await generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 2,
+        select: ['id', 'posts.title', 'posts._count'],
+        sortBy: [{ property: 'id', direction: 'ASC' }],
+        filters: {
+          type: 'filter',
+          field: 'age',
+          condition: { group: 'age', op: '$gte', value: 22 },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id, age: users.age },
+        baseWhere: ne(users.status, 'BANNED'),
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: posts.title },
+            foreignKey: posts.authorId,
+            parentKey: users.id,
+            where: like(posts.title, 'Post%'),
+            aggregates: { count: true },
+            buildQuery: (select) => db.select(select).from(posts),
+          }),
+        ],
+      },
+    ).execute();
+
+    expect(data).toEqual([
+      { id: 1, posts: [{ title: 'Post A1' }], posts__count: 1 },
+      { id: 2, posts: [{ title: 'Post B1' }], posts__count: 1 },
+    ]);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 4 }));
+  });
+
+  it('execute() compiles custom filter operators with the parsed filters, negated with not', async () => {
+    await seedUsers();
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+      select: ['id'],
+      sortBy: [{ property: 'id', direction: 'ASC' }],
+      filters: {
+        type: 'filter',
+        field: 'status',
+        condition: { group: 'status', op: '$eq', value: 'ACTIVE' },
+      },
+    });
+    const shortName = buildCustomFilter({
+      field: 'name',
+      op: '$lengthAtLeast',
+      value: 5,
+      not: true,
+    });
+
+    const { data, pagination } = await generatePaginationQuery(
+      { ...parsed, filters: parsed.filters && { type: 'and', items: [parsed.filters, shortName] } },
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id, name: users.name, status: users.status },
+        filterOperators: {
+          $lengthAtLeast: defineFilterOperator({
+            value: z.number().int().nonnegative(),
+            compile: (column, value) => sql`length(${column}) >= ${value}`,
+          }),
+        },
+      },
+    ).execute();
+
+    // Alice and Diana are active too, but their names are 5 characters long.
+    expect(data).toEqual([{ id: 2 }]);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 1 }));
+  });
+
+  it('execute() ranks $fts matches by their relevance score', async () => {
+    await db.execute(sql`
+      INSERT INTO posts (title) VALUES
+        ('Cursor pagination in depth'), ('Offset basics'),
+        ('Pagination, pagination everywhere'), ('Unrelated')
+    `);
+
+    const { data, pagination } = await generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['id', 'relevance'],
+        sortBy: [
+          { property: 'relevance', direction: 'DESC' },
+          { property: 'id', direction: 'ASC' },
+        ],
+        filters: buildCustomFilter({ field: 'title', op: '$fts', value: 'pagination' }),
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(posts),
+        fields: { id: posts.id, title: posts.title },
+        fullTextSearch: { languages: { title: 'english' }, scores: { relevance: 'title' } },
+      },
+    ).execute();
+
+    expect(data).toEqual([
+      { id: 3, relevance: expect.any(Number) },
+      { id: 1, relevance: expect.any(Number) },
+    ]);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 2 }));
+  });
+
+  it('execute() matches the global search against every searchable field', async () => {
+    await seedUsers();
+    await db.execute(
+      sql`INSERT INTO posts (title, author_id) VALUES ('Linux tips', 4), ('Cooking', 5)`,
+    );
+
+    const { data, pagination } = await generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['id', 'posts.title'],
+        sortBy: [{ property: 'id', direction: 'ASC' }],
+        filters: {
+          type: 'filter',
+          field: 'status',
+          condition: { group: 'status', op: '$eq', value: 'ACTIVE' },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id, name: users.name, email: users.email, status: users.status },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: posts.title },
+            foreignKey: posts.authorId,
+            parentKey: users.id,
+            buildQuery: (select) => db.select(select).from(posts),
+          }),
+        ],
+        search: 'li',
+        searchableFields: ['name', 'email', 'posts.title'],
+      },
+    ).execute();
+
+    expect(data).toEqual([
+      { id: 1, posts: [] },
+      { id: 4, posts: [{ title: 'Linux tips' }] },
+    ]);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 2 }));
+  });
+
+  it('execute() selects, filters and sorts on computed fields', async () => {
+    await seedUsers();
+
+    const label = defineComputedField(
+      sql<string>`${users.name} || ' <' || ${users.email} || '>'`,
+      'string',
+    );
+    // A numeric expression: decoded to a number by its declared data type.
+    const ageInMonths = defineComputedField(sql<number>`${users.age} * 12.0`, 'number');
+
+    const { data, pagination } = await generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 2,
+        select: ['id', 'label', 'ageInMonths'],
+        sortBy: [{ property: 'ageInMonths', direction: 'DESC' }],
+        filters: {
+          type: 'filter',
+          field: 'ageInMonths',
+          condition: { group: 'ageInMonths', op: '$gte', value: 300 },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id, label, ageInMonths },
+      },
+    ).execute();
+
+    expect(data).toEqual([
+      { id: 3, label: 'Charlie <charlie@test.com>', ageInMonths: 420 },
+      { id: 1, label: 'Alice <alice@test.com>', ageInMonths: 360 },
+    ]);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 4 }));
+  });
+
+  it('execute() selects, filters and sorts on JSON path fields', async () => {
+    await seedUsers();
+    await db
+      .update(users)
+      .set({
+        settings: {
+          theme: 'dark',
+          display: { fontSize: 14 },
+          beta: true,
+          labels: ['admin', 'ops'],
+        },
+      })
+      .where(eq(users.id, 1));
+    await db
+      .update(users)
+      .set({
+        settings: { theme: 'light', display: { fontSize: 12 }, beta: false, labels: ['ops'] },
+      })
+      .where(eq(users.id, 2));
+    await db
+      .update(users)
+      .set({ settings: { theme: 'dark', display: { fontSize: 16 }, beta: false, labels: [] } })
+      .where(eq(users.id, 3));
+
+    const fields = {
+      id: users.id,
+      theme: defineJsonField(users.settings, 'theme', { dialect: 'pg' }),
+      fontSize: defineJsonField(users.settings, 'display.fontSize', {
+        dialect: 'pg',
+        dataType: 'number',
+      }),
+      beta: defineJsonField(users.settings, 'beta', { dialect: 'pg', dataType: 'boolean' }),
+      labels: defineJsonField(users.settings, 'labels', { dialect: 'pg', dataType: 'json' }),
+    };
+
+    const byTheme = await generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['id', 'theme', 'fontSize'],
+        sortBy: [{ property: 'fontSize', direction: 'DESC' }],
+        filters: {
+          type: 'and',
+          items: [
+            {
+              type: 'filter',
+              field: 'theme',
+              condition: { group: 'theme', op: '$eq', value: 'dark' },
+            },
+            {
+              type: 'filter',
+              field: 'fontSize',
+              condition: { group: 'fontSize', op: '$gte', value: 14 },
+            },
+          ],
+        },
+      }),
+      { dialect: 'pg', buildQuery: (select) => db.select(select).from(users), fields },
+    ).execute();
+
+    expect(byTheme.data).toEqual([
+      { id: 3, theme: 'dark', fontSize: 16 },
+      { id: 1, theme: 'dark', fontSize: 14 },
+    ]);
+
+    const byLabel = await generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['id', 'beta', 'labels'],
+        filters: {
+          type: 'and',
+          items: [
+            {
+              type: 'filter',
+              field: 'labels',
+              condition: { group: 'labels', op: '$contains', value: ['ops'] },
+            },
+            {
+              type: 'filter',
+              field: 'beta',
+              condition: { group: 'beta', op: '$eq', value: false },
+            },
+          ],
+        },
+      }),
+      { dialect: 'pg', buildQuery: (select) => db.select(select).from(users), fields },
+    ).execute();
+
+    expect(byLabel.data).toEqual([{ id: 2, beta: false, labels: ['ops'] }]);
+    expect(byLabel.pagination).toEqual(expect.objectContaining({ totalItems: 1 }));
+  });
+
   it('execute() returns data with relations and correct pagination metadata', async () => {
     await seedUsers();
 
@@ -631,6 +1736,304 @@ describe('PostgreSQL integration', () => {
     );
   });
 
+  it('execute() walks cursor pages without skipping rows sharing a sort value', async () => {
+    await seedUsers();
+
+    const fetchPage = async (
+      cursor?: number | string,
+    ): Promise<{
+      ids: unknown[];
+      cursor: number | string | Date | null;
+      previousCursor: string | null;
+    }> => {
+      const parsed: PaginationPayload<DataSchema, 'CURSOR'> = {
+        type: 'CURSOR',
+        limit: 2,
+        cursor,
+        cursorProperty: 'id',
+        select: ['id', 'name'],
+        sortBy: [{ property: 'status', direction: 'ASC' }],
+      };
+
+      const result = generatePaginationQuery(parsed, {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id, name: users.name, status: users.status },
+      });
+
+      const { data, pagination } = await result.execute();
+      return {
+        ids: data.map((row) => row.id),
+        cursor: pagination.cursor,
+        previousCursor: pagination.previousCursor,
+      };
+    };
+
+    const firstPage = await fetchPage();
+    expect(firstPage.ids).toEqual([1, 2]);
+    expect(typeof firstPage.cursor).toBe('string');
+
+    const secondPage = await fetchPage(String(firstPage.cursor));
+    expect(secondPage.ids).toEqual([4, 5]);
+
+    const thirdPage = await fetchPage(String(secondPage.cursor));
+    expect(thirdPage.ids).toEqual([3]);
+  });
+
+  it('execute() counts grouped queries with countStrategy "subquery"', async () => {
+    await seedUsers();
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES ('Post A1', 1), ('Post A2', 1), ('Post B1', 2)
+    `);
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 2, select: ['id', 'name'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) =>
+          db
+            .select(select)
+            .from(users)
+            .leftJoin(posts, eq(users.id, posts.authorId))
+            .groupBy(users.id, users.name),
+        fields: { id: users.id, name: users.name },
+        countStrategy: 'subquery',
+      },
+    );
+
+    const { data, pagination } = await result.execute();
+
+    expect(data).toHaveLength(2);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 5, totalPages: 3 }));
+  });
+
+  it('execute() counts parents of a one-to-many join with countStrategy "distinct"', async () => {
+    await seedUsers();
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES ('Post A1', 1), ('Post A2', 1), ('Post B1', 2)
+    `);
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['id', 'name'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) =>
+          db.selectDistinct(select).from(users).leftJoin(posts, eq(users.id, posts.authorId)),
+        fields: { id: users.id, name: users.name },
+        countStrategy: 'distinct',
+        countDistinctKey: users.id,
+      },
+    );
+
+    const { data, pagination } = await result.execute();
+
+    expect(data).toHaveLength(5);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 5 }));
+  });
+
+  it('execute() runs a custom buildCountQuery with the filter applied', async () => {
+    await seedUsers();
+    await db.execute(sql`
+      INSERT INTO posts (title, author_id) VALUES ('Post A1', 1), ('Post A2', 1), ('Post B1', 2)
+    `);
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['id', 'name'],
+        filters: {
+          type: 'filter',
+          field: 'status',
+          condition: { group: 'status', op: '$eq', value: 'ACTIVE' },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) =>
+          db.selectDistinct(select).from(users).leftJoin(posts, eq(users.id, posts.authorId)),
+        buildCountQuery: (countSelect) => db.select(countSelect).from(users),
+        fields: { id: users.id, name: users.name, status: users.status },
+      },
+    );
+
+    const { pagination } = await result.execute();
+
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 3 }));
+  });
+
+  it('execute() with count "window" reads the total from the page query', async () => {
+    await seedUsers();
+
+    const fetchPage = async (page: number): Promise<{ rows: unknown[]; meta: unknown }> => {
+      const result = generatePaginationQuery(
+        toParsed({ type: 'LIMIT_OFFSET', page, limit: 2, select: ['id', 'name'] }),
+        {
+          dialect: 'pg',
+          buildQuery: (select) => db.select(select).from(users),
+          fields,
+          count: 'window',
+        },
+      );
+      const { data, pagination } = await result.execute();
+      return { rows: data, meta: pagination };
+    };
+
+    const firstPage = await fetchPage(1);
+    expect(firstPage.rows).toHaveLength(2);
+    expect(firstPage.rows[0]).not.toHaveProperty('__total_count');
+    expect(firstPage.meta).toEqual(
+      expect.objectContaining({ totalItems: 5, totalPages: 3, countMode: 'exact' }),
+    );
+
+    // Past the last page there is no row to read the window count from.
+    const emptyPage = await fetchPage(4);
+    expect(emptyPage.rows).toHaveLength(0);
+    expect(emptyPage.meta).toEqual(expect.objectContaining({ totalItems: 5 }));
+  });
+
+  it('execute() with count "none" returns hasNextPage instead of totals', async () => {
+    await seedUsers();
+
+    const fetchPage = async (page: number): Promise<{ count: number; meta: unknown }> => {
+      const result = generatePaginationQuery(
+        toParsed({ type: 'LIMIT_OFFSET', page, limit: 2, select: ['id'] }),
+        {
+          dialect: 'pg',
+          buildQuery: (select) => db.select(select).from(users),
+          fields,
+          count: 'none',
+        },
+      );
+      const { data, pagination } = await result.execute();
+      return { count: data.length, meta: pagination };
+    };
+
+    const secondPage = await fetchPage(2);
+    expect(secondPage.count).toBe(2);
+    expect(secondPage.meta).toEqual(
+      expect.objectContaining({
+        totalItems: null,
+        totalPages: null,
+        countMode: 'none',
+        hasNextPage: true,
+      }),
+    );
+
+    const lastPage = await fetchPage(3);
+    expect(lastPage.count).toBe(1);
+    expect(lastPage.meta).toEqual(expect.objectContaining({ hasNextPage: false }));
+  });
+
+  it('execute() with count "estimated" reads reltuples once the table is analyzed', async () => {
+    await seedUsers();
+    await db.execute(sql`analyze users`);
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 2, select: ['id'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields,
+        count: 'estimated',
+      },
+    );
+
+    const { pagination } = await result.execute();
+
+    expect(pagination).toEqual(
+      expect.objectContaining({ totalItems: 5, totalPages: 3, countMode: 'estimated' }),
+    );
+  });
+
+  it('execute() detects the last cursor page with detectNextPage', async () => {
+    await seedUsers();
+
+    const fetchPage = async (
+      limit: number,
+    ): Promise<{
+      count: number;
+      hasNextPage?: boolean;
+      cursor: unknown;
+      nextCursor: string | null;
+    }> => {
+      const parsed: PaginationPayload<DataSchema, 'CURSOR'> = {
+        type: 'CURSOR',
+        limit,
+        cursorProperty: 'id',
+        select: ['id'],
+      };
+      const result = generatePaginationQuery(parsed, {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id },
+        detectNextPage: true,
+      });
+
+      const { data, pagination } = await result.execute();
+      return {
+        count: data.length,
+        hasNextPage: pagination.hasNextPage,
+        cursor: pagination.cursor,
+        nextCursor: pagination.nextCursor,
+      };
+    };
+
+    const partial = await fetchPage(2);
+    expect(partial.count).toBe(2);
+    expect(partial.hasNextPage).toBe(true);
+    expect(typeof partial.cursor).toBe('string');
+
+    const full = await fetchPage(5);
+    expect(full.count).toBe(5);
+    expect(full.hasNextPage).toBe(false);
+    expect(full.nextCursor).toBeNull();
+    expect(full.cursor).toBeNull();
+  });
+
+  it('execute() walks cursor pages backwards with previousCursor', async () => {
+    await seedUsers();
+
+    const fetchPage = async (
+      cursor?: string,
+    ): Promise<{ ids: unknown[]; nextCursor: string | null; previousCursor: string | null }> => {
+      const parsed: PaginationPayload<DataSchema, 'CURSOR'> = {
+        type: 'CURSOR',
+        limit: 2,
+        cursor,
+        cursorProperty: 'id',
+        select: ['id', 'name'],
+        sortBy: [{ property: 'status', direction: 'ASC' }],
+      };
+
+      const result = generatePaginationQuery(parsed, {
+        dialect: 'pg',
+        buildQuery: (select) => db.select(select).from(users),
+        fields: { id: users.id, name: users.name, status: users.status },
+      });
+
+      const { data, pagination } = await result.execute();
+      return {
+        ids: data.map((row) => row.id),
+        nextCursor: pagination.nextCursor,
+        previousCursor: pagination.previousCursor,
+      };
+    };
+
+    const firstPage = await fetchPage();
+    expect(firstPage.previousCursor).toBeNull();
+    const secondPage = await fetchPage(firstPage.nextCursor ?? undefined);
+    const thirdPage = await fetchPage(secondPage.nextCursor ?? undefined);
+    expect(thirdPage.ids).toEqual([3]);
+
+    const backToSecond = await fetchPage(thirdPage.previousCursor ?? undefined);
+    expect(backToSecond.ids).toEqual([4, 5]);
+
+    const backToFirst = await fetchPage(backToSecond.previousCursor ?? undefined);
+    expect(backToFirst.ids).toEqual([1, 2]);
+  });
+
   it('generateSelectQuery with responseType "one" returns a single object', async () => {
     await seedUsers();
 
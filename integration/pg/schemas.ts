@@ -1,4 +1,4 @@
-import { integer, pgTable, text } from 'drizzle-orm/pg-core';
+import { bigint, integer, jsonb, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
 
 export const users = pgTable('users', {
   id: integer('id').primaryKey().generatedAlwaysAsIdentity(),
@@ -6,10 +6,40 @@ export const users = pgTable('users', {
   email: text('email').notNull(),
   age: integer('age'),
   status: text('status').notNull().default('ACTIVE'),
+  settings: jsonb('settings'),
 });
 
 export const posts = pgTable('posts', {
   id: integer('id').primaryKey().generatedAlwaysAsIdentity(),
   title: text('title').notNull(),
   authorId: integer('author_id').references(() => users.id),
+  publishedAt: timestamp('published_at'),
+  views: bigint('views', { mode: 'bigint' }),
+});
+
+export const comments = pgTable('comments', {
+  id: integer('id').primaryKey().generatedAlwaysAsIdentity(),
+  body: text('body').notNull(),
+  postId: integer('post_id').references(() => posts.id),
+  commentableType: text('commentable_type'),
+  commentableId: integer('commentable_id'),
+});
+
+export const videos = pgTable('videos', {
+  id: integer('id').primaryKey().generatedAlwaysAsIdentity(),
+  url: text('url').notNull(),
+});
+
+export const roles = pgTable('roles', {
+  id: integer('id').primaryKey().generatedAlwaysAsIdentity(),
+  name: text('name').notNull(),
+});
+
+export const usersToRoles = pgTable('users_to_roles', {
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id),
+  roleId: integer('role_id')
+    .notNull()
+    .references(() => roles.id),
 });
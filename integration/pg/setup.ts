@@ -23,7 +23,8 @@ export function setupPg(): void {
         name TEXT NOT NULL,
         email TEXT NOT NULL,
         age INTEGER,
-        status TEXT NOT NULL DEFAULT 'ACTIVE'
+        status TEXT NOT NULL DEFAULT 'ACTIVE',
+        settings JSONB
       )
     `);
 
@@ -31,17 +32,58 @@ export function setupPg(): void {
       CREATE TABLE IF NOT EXISTS posts (
         id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
         title TEXT NOT NULL,
-        author_id INTEGER REFERENCES users(id)
+        author_id INTEGER REFERENCES users(id),
+        published_at TIMESTAMP,
+        views BIGINT
+      )
+    `);
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS comments (
+        id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+        body TEXT NOT NULL,
+        post_id INTEGER REFERENCES posts(id),
+        commentable_type TEXT,
+        commentable_id INTEGER
+      )
+    `);
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS videos (
+        id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+        url TEXT NOT NULL
+      )
+    `);
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS roles (
+        id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+        name TEXT NOT NULL
+      )
+    `);
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS users_to_roles (
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        role_id INTEGER NOT NULL REFERENCES roles(id)
       )
     `);
   });
 
   beforeEach(async () => {
+    await db.execute(sql`TRUNCATE TABLE users_to_roles RESTART IDENTITY CASCADE`);
+    await db.execute(sql`TRUNCATE TABLE roles RESTART IDENTITY CASCADE`);
+    await db.execute(sql`TRUNCATE TABLE videos RESTART IDENTITY CASCADE`);
+    await db.execute(sql`TRUNCATE TABLE comments RESTART IDENTITY CASCADE`);
     await db.execute(sql`TRUNCATE TABLE posts RESTART IDENTITY CASCADE`);
     await db.execute(sql`TRUNCATE TABLE users RESTART IDENTITY CASCADE`);
   });
 
   afterAll(async () => {
+    await db.execute(sql`DROP TABLE IF EXISTS users_to_roles`);
+    await db.execute(sql`DROP TABLE IF EXISTS roles`);
+    await db.execute(sql`DROP TABLE IF EXISTS videos`);
+    await db.execute(sql`DROP TABLE IF EXISTS comments`);
     await db.execute(sql`DROP TABLE IF EXISTS posts`);
     await db.execute(sql`DROP TABLE IF EXISTS users`);
     await pool.end();
@@ -0,0 +1,46 @@
+import { blob, integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+
+export const users = sqliteTable('users', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  email: text('email').notNull(),
+  age: integer('age'),
+  status: text('status').notNull().default('ACTIVE'),
+  tags: text('tags', { mode: 'json' }).$type<string[]>(),
+  settings: text('settings', { mode: 'json' }),
+});
+
+export const posts = sqliteTable('posts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  title: text('title').notNull(),
+  authorId: integer('author_id').references(() => users.id),
+  publishedAt: integer('published_at', { mode: 'timestamp' }),
+  views: blob('views', { mode: 'bigint' }),
+});
+
+export const comments = sqliteTable('comments', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  body: text('body').notNull(),
+  postId: integer('post_id').references(() => posts.id),
+  commentableType: text('commentable_type'),
+  commentableId: integer('commentable_id'),
+});
+
+export const videos = sqliteTable('videos', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  url: text('url').notNull(),
+});
+
+export const roles = sqliteTable('roles', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+});
+
+export const usersToRoles = sqliteTable('users_to_roles', {
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id),
+  roleId: integer('role_id')
+    .notNull()
+    .references(() => roles.id),
+});
@@ -0,0 +1,103 @@
+import { createClient, type Client } from '@libsql/client';
+import { sql } from 'drizzle-orm';
+import { drizzle, LibSQLDatabase } from 'drizzle-orm/libsql';
+import { afterAll, beforeAll, beforeEach } from 'vitest';
+import * as schema from './schemas';
+
+const DATABASE_URL = process.env.SQLITE_URL ?? ':memory:';
+
+let client: Client;
+
+export let db: LibSQLDatabase<typeof schema> & {
+  $client: Client;
+};
+
+export function setupSqlite(): void {
+  beforeAll(async () => {
+    client = createClient({ url: DATABASE_URL });
+    db = drizzle(client, { schema });
+
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        email TEXT NOT NULL,
+        age INTEGER,
+        status TEXT NOT NULL DEFAULT 'ACTIVE',
+        tags TEXT,
+        settings TEXT
+      )
+    `);
+
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS posts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        author_id INTEGER REFERENCES users(id),
+        published_at INTEGER,
+        views BLOB
+      )
+    `);
+
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS comments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        body TEXT NOT NULL,
+        post_id INTEGER REFERENCES posts(id),
+        commentable_type TEXT,
+        commentable_id INTEGER
+      )
+    `);
+
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS videos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        url TEXT NOT NULL
+      )
+    `);
+
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS roles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL
+      )
+    `);
+
+    await db.run(sql`
+      CREATE TABLE IF NOT EXISTS users_to_roles (
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        role_id INTEGER NOT NULL REFERENCES roles(id)
+      )
+    `);
+  });
+
+  beforeEach(async () => {
+    await db.run(sql`DELETE FROM users_to_roles`);
+    await db.run(sql`DELETE FROM roles`);
+    await db.run(sql`DELETE FROM videos`);
+    await db.run(sql`DELETE FROM comments`);
+    await db.run(sql`DELETE FROM posts`);
+    await db.run(sql`DELETE FROM users`);
+    await db.run(sql`DELETE FROM sqlite_sequence`);
+  });
+
+  afterAll(async () => {
+    await db.run(sql`DROP TABLE IF EXISTS users_to_roles`);
+    await db.run(sql`DROP TABLE IF EXISTS roles`);
+    await db.run(sql`DROP TABLE IF EXISTS videos`);
+    await db.run(sql`DROP TABLE IF EXISTS comments`);
+    await db.run(sql`DROP TABLE IF EXISTS posts`);
+    await db.run(sql`DROP TABLE IF EXISTS users`);
+    client.close();
+  });
+}
+
+export async function seedUsers(): Promise<void> {
+  await db.insert(schema.users).values([
+    { name: 'Alice', email: 'alice@test.com', age: 30, status: 'ACTIVE', tags: ['admin', 'dev'] },
+    { name: 'Bob', email: 'bob@test.com', age: 25, status: 'ACTIVE', tags: ['dev'] },
+    { name: 'Charlie', email: 'charlie@test.com', age: 35, status: 'INACTIVE', tags: [] },
+    { name: 'Diana', email: 'diana@test.com', age: 28, status: 'ACTIVE', tags: ['ops'] },
+    { name: 'Eve', email: 'eve@test.com', age: 22, status: 'BANNED', tags: ['dev', 'ops'] },
+  ]);
+}
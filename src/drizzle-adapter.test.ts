@@ -1,6 +1,11 @@
-import { sql, type SQL } from 'drizzle-orm';
-import { integer, pgTable, text } from 'drizzle-orm/pg-core';
+import { isSQLWrapper, sql, SQL } from 'drizzle-orm';
+import type { Table } from 'drizzle-orm';
+import { MySqlDialect } from 'drizzle-orm/mysql-core';
+import { integer, jsonb, PgDialect, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import { drizzle } from 'drizzle-orm/pg-proxy';
+import { SQLiteSyncDialect } from 'drizzle-orm/sqlite-core';
 import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
 import type { DataSchema, PaginationPayload, SelectQueryPayload } from 'zod-paginate';
 import {
   applyDrizzlePaginationOnQuery,
@@ -8,9 +13,25 @@ import {
   generateSelectQuery,
   assembleDrizzleRelations,
   buildCursorResponseMeta,
+  buildCustomFilter,
   buildLimitOffsetResponseMeta,
+  createCursorCodec,
   createMySqlDrizzleOperators,
   createPgDrizzleOperators,
+  createSqliteDrizzleOperators,
+  defineComputedField,
+  defineFilterOperator,
+  defineJsonField,
+  defineMorphTo,
+  defineRelation,
+  DrizzlePaginationError,
+  InvalidCursorError,
+  InvalidFilterValueError,
+  MixedFilterScopeError,
+} from './drizzle-adapter';
+import type {
+  DrizzleCursorPaginationResponseMeta,
+  DrizzlePaginationPayload,
 } from './drizzle-adapter';
 
 const users = pgTable('users', {
@@ -18,19 +39,59 @@ const users = pgTable('users', {
   name: text('name'),
   age: integer('age'),
   tags: text('tags').array(),
+  settings: jsonb('settings'),
 });
 
 const postsTable = pgTable('posts', {
-  id: integer('id').notNull(),
+  id: integer('id').primaryKey(),
   title: text('title'),
   authorId: integer('author_id'),
+  createdAt: timestamp('created_at'),
+});
+
+const commentsTable = pgTable('comments', {
+  id: integer('id').notNull(),
+  body: text('body'),
+  postId: integer('post_id'),
+  commentableType: text('commentable_type'),
+  commentableId: integer('commentable_id'),
+});
+
+const videosTable = pgTable('videos', {
+  id: integer('id').notNull(),
+  url: text('url'),
 });
 
+const rolesTable = pgTable('roles', {
+  id: integer('id').notNull(),
+  name: text('name'),
+});
+
+const usersToRolesTable = pgTable('users_to_roles', {
+  userId: integer('user_id').notNull(),
+  roleId: integer('role_id').notNull(),
+});
+
+const pgDialect = new PgDialect();
+const mysqlDialect = new MySqlDialect();
+
+const cursorCodec = createCursorCodec();
+
+function cursorOf(values: Record<string, unknown>): string {
+  return cursorCodec.encode({ values });
+}
+
+function decodeCursor(cursor: unknown): Record<string, unknown> {
+  return cursorCodec.decode(String(cursor)).values;
+}
+
 class QuerySpy {
   public readonly whereCalls: SQL[] = [];
   public readonly orderByCalls: SQL[][] = [];
   public readonly limitCalls: number[] = [];
   public readonly offsetCalls: number[] = [];
+  public readonly innerJoinCalls: { table: Table; on: SQL }[] = [];
+  public readonly groupByCalls: unknown[][] = [];
 
   public then<TResult1 = Record<string, unknown>[], TResult2 = never>(
     onfulfilled?: ((value: Record<string, unknown>[]) => TResult1 | PromiseLike<TResult1>) | null,
@@ -62,9 +123,21 @@ class QuerySpy {
     this.offsetCalls.push(value);
     return this;
   }
+
+  public innerJoin(table: Table, on: SQL): this {
+    this.innerJoinCalls.push({ table, on });
+    return this;
+  }
+
+  public groupBy(...columns: unknown[]): this {
+    this.groupByCalls.push(columns);
+    return this;
+  }
 }
 
-function toParsed(pagination: PaginationPayload<DataSchema>): PaginationPayload<DataSchema> {
+function toParsed(
+  pagination: DrizzlePaginationPayload<DataSchema>,
+): DrizzlePaginationPayload<DataSchema> {
   return pagination;
 }
 
@@ -82,6 +155,28 @@ describe('createMySqlDrizzleOperators', () => {
   });
 });
 
+describe('createSqliteDrizzleOperators', () => {
+  const dialect = new SQLiteSyncDialect();
+
+  it('folds case and adds an explicit escape clause for ilike', () => {
+    const operators = createSqliteDrizzleOperators();
+    const query = dialect.sqlToQuery(operators.ilike(users.name, '%ali\\_%'));
+
+    expect(query.sql).toBe(`lower("users"."name") like lower(?) escape '\\'`);
+    expect(query.params).toEqual(['%ali\\_%']);
+  });
+
+  it('resolves contains through json_each', () => {
+    const operators = createSqliteDrizzleOperators();
+    expect(operators.contains).toBeTypeOf('function');
+
+    const query = dialect.sqlToQuery(operators.contains?.(users.tags, ['a', 'b']) ?? sql``);
+
+    expect(query.sql).toContain('exists (select 1 from json_each("users"."tags")');
+    expect(query.params).toEqual(['a', 'b']);
+  });
+});
+
 describe('applyDrizzlePaginationOnQuery', () => {
   it('applies where, orderBy, limit and offset for limit/offset pagination', () => {
     const query = new QuerySpy();
@@ -494,6 +589,31 @@ describe('applyDrizzlePaginationOnQuery', () => {
     expect(query.whereCalls).toHaveLength(1);
   });
 
+  it('applies clauses using sqlite dialect without errors', () => {
+    const query = new QuerySpy();
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+      filters: {
+        type: 'filter',
+        field: 'name',
+        condition: { group: 'name', op: '$ilike', value: 'ali' },
+      },
+    });
+
+    const result = applyDrizzlePaginationOnQuery(parsed, {
+      dialect: 'sqlite',
+      buildQuery: () => query,
+      fields: {
+        name: users.name,
+      },
+    });
+
+    expect(result.clauses.where).toBeDefined();
+    expect(query.whereCalls).toHaveLength(1);
+  });
+
   it('applies clauses using mysql dialect without errors', () => {
     const query = new QuerySpy();
     const parsed = toParsed({
@@ -587,7 +707,7 @@ describe('applyDrizzlePaginationOnQuery', () => {
     const parsed = toParsed({
       type: 'CURSOR',
       limit: 10,
-      cursor: 42,
+      cursor: cursorOf({ id: 42 }),
       cursorProperty: 'id',
       sortBy: [{ property: 'id', direction: 'ASC' }],
     });
@@ -598,7 +718,7 @@ describe('applyDrizzlePaginationOnQuery', () => {
       fields: { id: users.id, name: users.name },
     });
 
-    expect(result.clauses.cursor).toBe(42);
+    expect(result.clauses.cursor).toBe(cursorOf({ id: 42 }));
     expect(result.clauses.cursorProperty).toBe('id');
     expect(query.whereCalls).toHaveLength(1);
     // No offset should be applied for cursor pagination.
@@ -613,7 +733,7 @@ describe('applyDrizzlePaginationOnQuery', () => {
     const parsed = toParsed({
       type: 'CURSOR',
       limit: 5,
-      cursor: 100,
+      cursor: cursorOf({ id: 100 }),
       cursorProperty: 'id',
       sortBy: [{ property: 'id', direction: 'DESC' }],
     });
@@ -624,7 +744,7 @@ describe('applyDrizzlePaginationOnQuery', () => {
       fields: { id: users.id, name: users.name },
     });
 
-    expect(result.clauses.cursor).toBe(100);
+    expect(result.clauses.cursor).toBe(cursorOf({ id: 100 }));
     expect(query.whereCalls).toHaveLength(1);
   });
 
@@ -654,7 +774,7 @@ describe('applyDrizzlePaginationOnQuery', () => {
     const parsed = toParsed({
       type: 'CURSOR',
       limit: 10,
-      cursor: 5,
+      cursor: cursorOf({ id: 5 }),
       cursorProperty: 'id',
       sortBy: [{ property: 'id', direction: 'ASC' }],
       filters: {
@@ -670,497 +790,3286 @@ describe('applyDrizzlePaginationOnQuery', () => {
       fields: { id: users.id, name: users.name },
     });
 
-    expect(result.clauses.cursor).toBe(5);
+    expect(result.clauses.cursor).toBe(cursorOf({ id: 5 }));
     // Both the filter and cursor condition should be combined into where.
     expect(query.whereCalls).toHaveLength(1);
   });
 });
 
-describe('generatePaginationQuery', () => {
-  it('builds a main query and separate relation queries', () => {
-    const mainQuery = new QuerySpy();
-    const relationQuery = new QuerySpy();
+describe('custom filter operators', () => {
+  const filterOperators = {
+    $regex: defineFilterOperator({
+      value: z.string().max(20),
+      compile: (column, value, dialect) =>
+        dialect === 'pg' ? sql`${column} ~ ${value}` : sql`${column} regexp ${value}`,
+    }),
+  };
 
-    const parsed = toParsed({
-      type: 'LIMIT_OFFSET',
-      page: 1,
-      limit: 10,
-      select: ['name', 'posts.title'],
-      sortBy: [{ property: 'name', direction: 'ASC' }],
-    });
+  it('compiles a custom operator for the dialect and negates it with not', () => {
+    const query = new QuerySpy();
 
-    const result = generatePaginationQuery(parsed, {
-      dialect: 'pg',
-      buildQuery: (): QuerySpy => mainQuery,
-      fields: { id: users.id, name: users.name },
-      relations: [
-        {
-          relationName: 'posts',
-          fields: { id: postsTable.id, title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
-          buildQuery: (): QuerySpy => relationQuery,
+    applyDrizzlePaginationOnQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        filters: {
+          type: 'and',
+          items: [
+            buildCustomFilter({ field: 'name', op: '$regex', value: '^A' }),
+            buildCustomFilter({ field: 'name', op: '$regex', value: 'e$', not: true }),
+          ],
         },
-      ],
-    });
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: () => query,
+        fields: { name: users.name },
+        filterOperators,
+      },
+    );
 
-    expect(result.query).toBe(mainQuery);
-    expect(result.relationQueries).toHaveLength(1);
-    expect(result.relationQueries[0]?.relationName).toBe('posts');
-    expect(result.relationQueries[0]?.foreignKeyAlias).toBe('__fk');
+    const [where] = query.whereCalls;
+    expect(where && pgDialect.sqlToQuery(where)).toEqual(
+      expect.objectContaining({
+        sql: '("users"."name" ~ $1 and not "users"."name" ~ $2)',
+        params: ['^A', 'e$'],
+      }),
+    );
   });
 
-  it('strips relation-prefixed fields from the main select', () => {
-    const mainQuery = new QuerySpy();
-    const relationQuery = new QuerySpy();
-    const buildMainQuery = vi.fn((): QuerySpy => mainQuery);
-
-    const parsed = toParsed({
-      type: 'LIMIT_OFFSET',
-      page: 1,
-      limit: 10,
-      select: ['name', 'posts.title', 'posts.id'],
-    });
+  it('consults custom operators before the built-in ones', () => {
+    const query = new QuerySpy();
 
-    generatePaginationQuery(parsed, {
-      dialect: 'pg',
-      buildQuery: buildMainQuery,
-      fields: { id: users.id, name: users.name },
-      relations: [
-        {
-          relationName: 'posts',
-          fields: { id: postsTable.id, title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
-          buildQuery: (): QuerySpy => relationQuery,
+    applyDrizzlePaginationOnQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        filters: {
+          type: 'filter',
+          field: 'name',
+          condition: { group: 'name', op: '$eq', value: 'alice' },
         },
-      ],
-    });
-
-    // Main query should have 'name' + '__pk_posts' (parent key), but not 'posts.title'
-    expect(buildMainQuery).toHaveBeenCalledTimes(1);
-    expect(buildMainQuery).toHaveBeenCalledWith(
-      expect.objectContaining({ name: users.name, __pk_posts: users.id }),
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: () => query,
+        fields: { name: users.name },
+        filterOperators: {
+          $eq: defineFilterOperator({
+            value: z.string(),
+            compile: (column, value) => sql`lower(${column}) = lower(${value})`,
+          }),
+        },
+      },
     );
-    expect(buildMainQuery).not.toHaveBeenCalledWith(
-      expect.objectContaining({ posts_title: expect.anything() }),
+
+    const [where] = query.whereCalls;
+    expect(where && pgDialect.sqlToQuery(where)).toEqual(
+      expect.objectContaining({
+        sql: 'lower("users"."name") = lower($1)',
+        params: ['alice'],
+      }),
     );
   });
 
-  it('routes relation-prefixed filters to the relation query only', () => {
-    const mainQuery = new QuerySpy();
-    const relationQuery = new QuerySpy();
-
+  it('builds custom operator filters that combine with the parsed ones', () => {
+    const query = new QuerySpy();
     const parsed = toParsed({
       type: 'LIMIT_OFFSET',
       page: 1,
       limit: 10,
       filters: {
-        type: 'and',
-        items: [
-          {
-            type: 'filter',
-            field: 'name',
-            condition: { group: 'name', op: '$eq', value: 'alice' },
-          },
-          {
-            type: 'filter',
-            field: 'posts.title',
-            condition: { group: 'posts.title', op: '$ilike', value: 'hello' },
-          },
-        ],
+        type: 'filter',
+        field: 'age',
+        condition: { group: 'age', op: '$gte', value: 18 },
       },
     });
+    const regex = buildCustomFilter({ field: 'name', op: '$regex', value: '^A', not: true });
 
-    const result = generatePaginationQuery(parsed, {
-      dialect: 'pg',
-      buildQuery: (): QuerySpy => mainQuery,
-      fields: { name: users.name },
-      relations: [
-        {
-          relationName: 'posts',
-          fields: { title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
-          buildQuery: (): QuerySpy => relationQuery,
-        },
-      ],
-    });
+    applyDrizzlePaginationOnQuery(
+      { ...parsed, filters: parsed.filters && { type: 'and', items: [parsed.filters, regex] } },
+      {
+        dialect: 'mysql',
+        buildQuery: () => query,
+        fields: { name: users.name, age: users.age },
+        filterOperators,
+      },
+    );
 
-    // Main query has only the name filter
-    expect(mainQuery.whereCalls).toHaveLength(1);
-    // Relation query has only the title filter
-    expect(relationQuery.whereCalls).toHaveLength(1);
-    expect(result.relationQueries).toHaveLength(1);
+    expect(regex).toEqual({
+      type: 'filter',
+      field: 'name',
+      condition: { group: 'name', op: '$regex', value: '^A', not: true },
+    });
+    const [where] = query.whereCalls;
+    expect(where && mysqlDialect.sqlToQuery(where)).toEqual(
+      expect.objectContaining({
+        sql: '(`users`.`age` >= ? and not `users`.`name` regexp ?)',
+        params: [18, '^A'],
+      }),
+    );
   });
 
-  it('routes relation-prefixed sortBy to the relation query only', () => {
-    const mainQuery = new QuerySpy();
-    const relationQuery = new QuerySpy();
-
-    const parsed = toParsed({
-      type: 'LIMIT_OFFSET',
-      page: 1,
-      limit: 10,
-      sortBy: [
-        { property: 'name', direction: 'ASC' },
-        { property: 'posts.title', direction: 'DESC' },
-      ],
+  it('builds custom conditions but refuses built-in operators', () => {
+    expect(buildCustomFilter({ field: 'name', op: '$regex', value: '^A', not: true })).toEqual({
+      type: 'filter',
+      field: 'name',
+      condition: { group: 'name', op: '$regex', value: '^A', not: true },
     });
+    expect(() => buildCustomFilter({ field: 'name', op: '$eq', value: 'Alice' })).toThrow(
+      DrizzlePaginationError,
+    );
+  });
 
-    generatePaginationQuery(parsed, {
-      dialect: 'pg',
-      buildQuery: (): QuerySpy => mainQuery,
-      fields: { name: users.name },
-      relations: [
+  it('rejects values that do not match the operator schema', () => {
+    expect(() =>
+      applyDrizzlePaginationOnQuery(
+        toParsed({
+          type: 'LIMIT_OFFSET',
+          page: 1,
+          limit: 10,
+          filters: buildCustomFilter({ field: 'name', op: '$regex', value: 42 }),
+        }),
         {
-          relationName: 'posts',
-          fields: { title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
-          buildQuery: (): QuerySpy => relationQuery,
+          dialect: 'mysql',
+          buildQuery: () => new QuerySpy(),
+          fields: { name: users.name },
+          filterOperators,
         },
-      ],
-    });
-
-    // Main query sorted by name only
-    expect(mainQuery.orderByCalls).toHaveLength(1);
-    expect(mainQuery.orderByCalls[0]).toHaveLength(1);
-    // Relation query sorted by title only
-    expect(relationQuery.orderByCalls).toHaveLength(1);
-    expect(relationQuery.orderByCalls[0]).toHaveLength(1);
+      ),
+    ).toThrow(InvalidFilterValueError);
   });
+});
 
-  it('applies static relation orderBy on the relation query', () => {
-    const relationQuery = new QuerySpy();
-    const staticOrder = [sql`1`];
+describe('full-text search', () => {
+  it('compiles $fts with the language of the field and negates it with not', () => {
+    const query = new QuerySpy();
+    const proxyDb = drizzle(() => Promise.resolve({ rows: [] }));
+
+    generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        filters: {
+          type: 'and',
+          items: [
+            buildCustomFilter({ field: 'name', op: '$fts', value: 'drizzle -orm' }),
+            buildCustomFilter({ field: 'posts.title', op: '$fts', value: 'pagination', not: true }),
+          ],
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: () => query,
+        fields: { id: users.id, name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { id: postsTable.id, title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            filterMode: 'parent',
+            buildQuery: (select) => proxyDb.select(select).from(postsTable),
+          }),
+        ],
+        fullTextSearch: { languages: { name: 'english' } },
+        count: 'none',
+      },
+    );
 
-    const parsed = toParsed({
-      type: 'LIMIT_OFFSET',
-      page: 1,
-      limit: 10,
-    });
+    const [where] = query.whereCalls;
+    expect(where && pgDialect.sqlToQuery(where)).toEqual(
+      expect.objectContaining({
+        sql:
+          `(to_tsvector('english', "users"."name") @@ websearch_to_tsquery('english', $1) and ` +
+          'not exists (select 1 from "posts" where ("posts"."author_id" = "users"."id" and ' +
+          'to_tsvector("posts"."title") @@ websearch_to_tsquery($2))))',
+        params: ['drizzle -orm', 'pagination'],
+      }),
+    );
+  });
 
-    generatePaginationQuery(parsed, {
-      dialect: 'pg',
-      buildQuery: (): QuerySpy => new QuerySpy(),
-      fields: { name: users.name },
-      relations: [
+  it('rejects different languages for field paths mapped to the same column', () => {
+    const build = (languages: Record<string, string>): unknown =>
+      applyDrizzlePaginationOnQuery(
+        toParsed({
+          type: 'LIMIT_OFFSET',
+          page: 1,
+          limit: 10,
+          filters: buildCustomFilter({ field: 'name', op: '$fts', value: 'drizzle' }),
+        }),
         {
-          relationName: 'posts',
-          fields: { title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
-          orderBy: staticOrder,
-          buildQuery: (): QuerySpy => relationQuery,
+          dialect: 'pg',
+          buildQuery: () => new QuerySpy(),
+          fields: { name: users.name, displayName: users.name },
+          fullTextSearch: { languages },
         },
-      ],
+      );
+
+    expect(() => build({ name: 'english', displayName: 'french' })).toThrow(
+      'fullTextSearch.languages gives "name" and "displayName" different languages',
+    );
+    expect(() => build({ name: 'english', displayName: 'english' })).not.toThrow();
+  });
+
+  it('compiles $fts to MATCH … AGAINST in boolean mode on MySQL', () => {
+    const query = new QuerySpy();
+
+    applyDrizzlePaginationOnQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        filters: buildCustomFilter({ field: 'name', op: '$fts', value: '+drizzle -orm' }),
+      }),
+      {
+        dialect: 'mysql',
+        buildQuery: () => query,
+        fields: { name: users.name },
+      },
+    );
+
+    const [where] = query.whereCalls;
+    expect(where && mysqlDialect.sqlToQuery(where)).toEqual(
+      expect.objectContaining({
+        sql: 'match(`users`.`name`) against(? in boolean mode)',
+        params: ['+drizzle -orm'],
+      }),
+    );
+  });
+
+  it('selects and sorts on a relevance score of the $fts query', () => {
+    const query = new QuerySpy();
+    let selectShape: Record<string, unknown> = {};
+
+    applyDrizzlePaginationOnQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['id', 'relevance'],
+        sortBy: [{ property: 'relevance', direction: 'DESC' }],
+        filters: buildCustomFilter({ field: 'name', op: '$fts', value: 'drizzle' }),
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => {
+          selectShape = select;
+          return query;
+        },
+        fields: { id: users.id, name: users.name },
+        fullTextSearch: { languages: { name: 'simple' }, scores: { relevance: 'name' } },
+      },
+    );
+
+    const score = selectShape.relevance;
+    expect(isSQLWrapper(score) && pgDialect.sqlToQuery(sql`${score}`)).toEqual(
+      expect.objectContaining({
+        sql: `ts_rank(to_tsvector('simple', "users"."name"), websearch_to_tsquery('simple', $1))`,
+        params: ['drizzle'],
+      }),
+    );
+    const [orderBy] = query.orderByCalls;
+    expect(orderBy && pgDialect.sqlToQuery(sql.join(orderBy, sql`, `)).sql).toBe(
+      `ts_rank(to_tsvector('simple', "users"."name"), websearch_to_tsquery('simple', $1)) desc`,
+    );
+  });
+
+  it('rejects $fts when the operator set has no fts function', () => {
+    expect(() =>
+      applyDrizzlePaginationOnQuery(
+        toParsed({
+          type: 'LIMIT_OFFSET',
+          page: 1,
+          limit: 10,
+          filters: buildCustomFilter({ field: 'name', op: '$fts', value: 'drizzle' }),
+        }),
+        {
+          dialect: 'sqlite',
+          buildQuery: () => new QuerySpy(),
+          fields: { name: users.name },
+        },
+      ),
+    ).toThrow('Operator "$fts" is present but no "fts" function is provided');
+  });
+});
+
+describe('global search', () => {
+  it('ORs the searchable fields, ANDed with the filters of the page and count queries', async () => {
+    const mainSpy = new QuerySpy();
+    const countSpy = new QuerySpy();
+    const proxyDb = drizzle(() => Promise.resolve({ rows: [] }));
+    vi.spyOn(countSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ count: 0 }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        filters: {
+          type: 'filter',
+          field: 'age',
+          condition: { group: 'age', op: '$gte', value: 18 },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        buildCountQuery: (): QuerySpy => countSpy,
+        fields: { id: users.id, name: users.name, age: users.age },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            buildQuery: (select) => proxyDb.select(select).from(postsTable),
+          }),
+        ],
+        search: ' ada ',
+        searchableFields: ['name', { field: 'posts.title', match: 'fts' }],
+      },
+    );
+
+    await result.execute();
+
+    const expected = expect.objectContaining({
+      sql:
+        '("users"."age" >= $1 and ("users"."name" ilike $2 or exists (select 1 from "posts" ' +
+        'where ("posts"."author_id" = "users"."id" and ' +
+        'to_tsvector("posts"."title") @@ websearch_to_tsquery($3)))))',
+      params: [18, '%ada%', 'ada'],
     });
+    const [mainWhere] = mainSpy.whereCalls;
+    const [countWhere] = countSpy.whereCalls;
+    expect(mainWhere && pgDialect.sqlToQuery(mainWhere)).toEqual(expected);
+    expect(countWhere && pgDialect.sqlToQuery(countWhere)).toEqual(expected);
+  });
 
-    expect(relationQuery.orderByCalls).toHaveLength(1);
-    expect(relationQuery.orderByCalls[0]).toEqual(staticOrder);
+  it('ranks full-text scores with the search value', () => {
+    let selectShape: Record<string, unknown> = {};
+
+    generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['id', 'relevance'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => {
+          selectShape = select;
+          return new QuerySpy();
+        },
+        fields: { id: users.id, name: users.name },
+        search: 'ada',
+        searchableFields: [{ field: 'name', match: 'fts' }],
+        fullTextSearch: { scores: { relevance: 'name' } },
+      },
+    );
+
+    const score = selectShape.relevance;
+    expect(isSQLWrapper(score) && pgDialect.sqlToQuery(sql`${score}`)).toEqual(
+      expect.objectContaining({
+        sql: 'ts_rank(to_tsvector("users"."name"), websearch_to_tsquery($1))',
+        params: ['ada'],
+      }),
+    );
   });
 
-  it('appends static relation orderBy after client-requested sort', () => {
-    const relationQuery = new QuerySpy();
-    const staticOrder = [sql`2`];
+  it('ignores a blank search and rejects a search without searchable fields', () => {
+    const config = {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => new QuerySpy(),
+      fields: { name: users.name },
+    } as const;
+    const parsed = toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10 });
+
+    const blank = generatePaginationQuery(parsed, {
+      ...config,
+      search: '  ',
+      searchableFields: ['name'],
+    });
+    expect(blank.clauses.where).toBeUndefined();
+
+    expect(() => generatePaginationQuery(parsed, { ...config, search: 'ada' })).toThrow(
+      'search requires searchableFields',
+    );
+  });
+});
+
+describe('computed fields', () => {
+  it('selects, filters and sorts on SQL expressions', () => {
+    const query = new QuerySpy();
+    let selectShape: Record<string, unknown> = {};
+    const label = defineComputedField(
+      sql<string>`concat(${users.name}, ' #', ${users.id})`,
+      'string',
+    );
+
+    applyDrizzlePaginationOnQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['label'],
+        sortBy: [{ property: 'label', direction: 'ASC' }],
+        filters: {
+          type: 'filter',
+          field: 'label',
+          condition: { group: 'label', op: '$sw', value: 'Al' },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => {
+          selectShape = select;
+          return query;
+        },
+        fields: { id: users.id, label },
+      },
+    );
+
+    expect(selectShape).toEqual({ label });
+    const [where] = query.whereCalls;
+    expect(where && pgDialect.sqlToQuery(where)).toEqual(
+      expect.objectContaining({
+        sql: `concat("users"."name", ' #', "users"."id") ilike $1`,
+        params: ['Al%'],
+      }),
+    );
+    const [orderBy] = query.orderByCalls;
+    expect(orderBy && pgDialect.sqlToQuery(sql.join(orderBy, sql`, `)).sql).toBe(
+      `concat("users"."name", ' #', "users"."id") asc`,
+    );
+  });
+
+  it('decodes driver values by the declared data type', async () => {
+    const proxyDb = drizzle(() =>
+      Promise.resolve({ rows: [['42', '2024-01-02T00:00:00.000Z', 1]] }),
+    );
+    const total = defineComputedField(sql<number>`sum(${users.age})`, 'number');
+    const since = defineComputedField(sql<Date>`min(${postsTable.createdAt})`, 'date');
+    const active = defineComputedField(sql<boolean>`bool_or(${users.age} > 18)`, 'boolean');
+
+    const rows = await proxyDb.select({ total, since, active }).from(users);
+
+    expect(rows).toEqual([
+      { total: 42, since: new Date('2024-01-02T00:00:00.000Z'), active: true },
+    ]);
+  });
+
+  it('restores date cursor values of a computed sort field', () => {
+    const query = new QuerySpy();
+    const lastSeen = defineComputedField(
+      sql<Date>`coalesce(${postsTable.createdAt}, now())`,
+      'date',
+    );
+
+    applyDrizzlePaginationOnQuery(
+      toParsed({
+        type: 'CURSOR',
+        limit: 10,
+        cursor: cursorOf({ lastSeen: new Date('2024-01-02T00:00:00.000Z'), id: 3 }),
+        cursorProperty: 'id',
+        sortBy: [{ property: 'lastSeen', direction: 'DESC' }],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: () => query,
+        fields: { id: postsTable.id, lastSeen },
+      },
+    );
+
+    const [where] = query.whereCalls;
+    expect(where && pgDialect.sqlToQuery(where).params).toEqual([
+      0,
+      0,
+      new Date('2024-01-02T00:00:00.000Z'),
+      0,
+      new Date('2024-01-02T00:00:00.000Z'),
+      3,
+    ]);
+  });
+});
+
+describe('JSON path fields', () => {
+  it('compiles paths with casts on PG for select, filters and sortBy', () => {
+    const query = new QuerySpy();
+    let selectShape: Record<string, unknown> = {};
+    const theme = defineJsonField(users.settings, 'theme', { dialect: 'pg' });
+    const fontSize = defineJsonField(users.settings, 'display.fontSize', {
+      dialect: 'pg',
+      dataType: 'number',
+    });
+
+    applyDrizzlePaginationOnQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['theme'],
+        sortBy: [{ property: 'fontSize', direction: 'DESC' }],
+        filters: {
+          type: 'and',
+          items: [
+            {
+              type: 'filter',
+              field: 'theme',
+              condition: { group: 'theme', op: '$eq', value: 'dark' },
+            },
+            {
+              type: 'filter',
+              field: 'fontSize',
+              condition: { group: 'fontSize', op: '$gt', value: 12 },
+            },
+          ],
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select) => {
+          selectShape = select;
+          return query;
+        },
+        fields: { theme, fontSize },
+      },
+    );
 
+    expect(selectShape).toEqual({ theme });
+    const [where] = query.whereCalls;
+    expect(where && pgDialect.sqlToQuery(where)).toEqual(
+      expect.objectContaining({
+        sql: `(("users"."settings" ->> 'theme') = $1 and ("users"."settings" #>> '{display,fontSize}')::numeric > $2)`,
+        params: ['dark', 12],
+      }),
+    );
+    const [orderBy] = query.orderByCalls;
+    expect(orderBy && pgDialect.sqlToQuery(sql.join(orderBy, sql`, `)).sql).toBe(
+      `("users"."settings" #>> '{display,fontSize}')::numeric desc`,
+    );
+  });
+
+  it('compiles $contains on JSON arrays', () => {
+    const pgQuery = new QuerySpy();
+    const mysqlQuery = new QuerySpy();
     const parsed = toParsed({
       type: 'LIMIT_OFFSET',
       page: 1,
       limit: 10,
-      sortBy: [{ property: 'posts.title', direction: 'ASC' }],
+      filters: {
+        type: 'filter',
+        field: 'labels',
+        condition: { group: 'labels', op: '$contains', value: ['ops'], not: true },
+      },
+    });
+
+    applyDrizzlePaginationOnQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: () => pgQuery,
+      fields: {
+        labels: defineJsonField(users.settings, 'labels', { dialect: 'pg', dataType: 'json' }),
+      },
+    });
+    applyDrizzlePaginationOnQuery(parsed, {
+      dialect: 'mysql',
+      buildQuery: () => mysqlQuery,
+      fields: {
+        labels: defineJsonField(users.settings, 'labels', { dialect: 'mysql', dataType: 'json' }),
+      },
+    });
+
+    const [pgWhere] = pgQuery.whereCalls;
+    expect(pgWhere && pgDialect.sqlToQuery(pgWhere)).toEqual(
+      expect.objectContaining({
+        sql: `not ("users"."settings" -> 'labels')::jsonb @> $1::jsonb`,
+        params: ['["ops"]'],
+      }),
+    );
+    const [mysqlWhere] = mysqlQuery.whereCalls;
+    expect(mysqlWhere && mysqlDialect.sqlToQuery(mysqlWhere)).toEqual(
+      expect.objectContaining({
+        sql: "not json_contains(json_extract(`users`.`settings`, '$.labels'), ?)",
+        params: ['["ops"]'],
+      }),
+    );
+  });
+
+  it('compiles MySQL paths with json_unquote and casts', () => {
+    const beta = defineJsonField(users.settings, ['flags', 'beta'], {
+      dialect: 'mysql',
+      dataType: 'boolean',
+    });
+
+    expect(mysqlDialect.sqlToQuery(sql`${beta}`).sql).toBe(
+      "(json_unquote(json_extract(`users`.`settings`, '$.flags.beta')) = 'true')",
+    );
+  });
+
+  it('rejects path keys that are not identifiers', () => {
+    expect(() => defineJsonField(users.settings, "theme'--", { dialect: 'pg' })).toThrow(
+      DrizzlePaginationError,
+    );
+  });
+
+  it('rejects fields compiled for another dialect than the query', () => {
+    const proxyDb = drizzle(() => Promise.resolve({ rows: [] }));
+    const theme = defineJsonField(users.settings, 'theme', { dialect: 'pg' });
+    const parsed = toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['theme'] });
+
+    expect(() =>
+      applyDrizzlePaginationOnQuery(parsed, {
+        dialect: 'mysql',
+        buildQuery: () => new QuerySpy(),
+        fields: { theme },
+      }),
+    ).toThrow('JSON field "theme" is compiled for pg, but the query dialect is mysql');
+    expect(() =>
+      generatePaginationQuery(parsed, {
+        dialect: 'sqlite',
+        buildQuery: () => new QuerySpy(),
+        fields: { id: users.id },
+        relations: [
+          defineRelation({
+            relationName: 'author',
+            fields: { theme },
+            foreignKey: users.id,
+            parentKey: postsTable.authorId,
+            buildQuery: (select) => proxyDb.select(select).from(users),
+          }),
+        ],
+      }),
+    ).toThrow('JSON field "author.theme" is compiled for pg');
+    expect(() =>
+      applyDrizzlePaginationOnQuery(parsed, {
+        dialect: 'pg',
+        buildQuery: () => new QuerySpy(),
+        fields: { theme },
+      }),
+    ).not.toThrow();
+  });
+});
+
+describe('applyDrizzlePaginationOnQuery keyset cursor', () => {
+  it('compares every sort column plus the cursor property as tiebreaker', () => {
+    const query = new QuerySpy();
+
+    const parsed = toParsed({
+      type: 'CURSOR',
+      limit: 10,
+      cursor: cursorOf({ name: 'bob', id: 7 }),
+      cursorProperty: 'id',
+      sortBy: [{ property: 'name', direction: 'ASC' }],
+    });
+
+    const result = applyDrizzlePaginationOnQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => query,
+      fields: { id: users.id, name: users.name },
+    });
+
+    // `name` is nullable: its "is null" flag sorts NULLs last.
+    const nameIsNull = 'case when "users"."name" is null then 1 else 0 end';
+    expect(result.clauses.cursorProperties).toEqual(['name', 'id']);
+    const where = result.clauses.where;
+    expect(where).toBeDefined();
+    if (!where) return;
+    expect(pgDialect.sqlToQuery(where)).toEqual(
+      expect.objectContaining({
+        sql:
+          `(${nameIsNull} > $1 or (${nameIsNull} = $2 and "users"."name" > $3) or ` +
+          `(${nameIsNull} = $4 and "users"."name" = $5 and "users"."id" > $6))`,
+        params: [0, 0, 'bob', 0, 'bob', 7],
+      }),
+    );
+    expect(query.orderByCalls[0]?.map((o) => pgDialect.sqlToQuery(o).sql)).toEqual([
+      `${nameIsNull} asc`,
+      '"users"."name" asc',
+      '"users"."id" asc',
+    ]);
+  });
+
+  it('handles mixed sort directions', () => {
+    const query = new QuerySpy();
+
+    const parsed = toParsed({
+      type: 'CURSOR',
+      limit: 10,
+      cursor: cursorOf({ name: 'bob', age: 30, id: 7 }),
+      cursorProperty: 'id',
+      sortBy: [
+        { property: 'name', direction: 'DESC' },
+        { property: 'age', direction: 'ASC' },
+        { property: 'id', direction: 'DESC' },
+      ],
+    });
+
+    const result = applyDrizzlePaginationOnQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => query,
+      fields: { id: users.id, name: users.name, age: users.age },
+    });
+
+    const where = result.clauses.where;
+    expect(where).toBeDefined();
+    if (!where) return;
+    const nameIsNull = 'case when "users"."name" is null then 1 else 0 end';
+    const ageIsNull = 'case when "users"."age" is null then 1 else 0 end';
+    expect(pgDialect.sqlToQuery(where).sql).toBe(
+      `(${nameIsNull} > $1 or (${nameIsNull} = $2 and "users"."name" < $3) or ` +
+        `(${nameIsNull} = $4 and "users"."name" = $5 and ${ageIsNull} > $6) or ` +
+        `(${nameIsNull} = $7 and "users"."name" = $8 and ${ageIsNull} = $9 and "users"."age" > $10) or ` +
+        `(${nameIsNull} = $11 and "users"."name" = $12 and ${ageIsNull} = $13 and "users"."age" = $14 ` +
+        'and "users"."id" < $15))',
+    );
+    // The cursor property is already sorted on: no extra ORDER BY item, but
+    // both nullable columns are preceded by their flag.
+    expect(query.orderByCalls[0]).toHaveLength(5);
+  });
+
+  it('appends the tiebreaker to ORDER BY when it is not sorted on', () => {
+    const query = new QuerySpy();
+
+    const parsed = toParsed({
+      type: 'CURSOR',
+      limit: 10,
+      cursorProperty: 'id',
+    });
+
+    applyDrizzlePaginationOnQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => query,
+      fields: { id: users.id },
+    });
+
+    expect(query.orderByCalls[0]?.map((o) => pgDialect.sqlToQuery(o).sql)).toEqual([
+      '"users"."id" asc',
+    ]);
+  });
+
+  it('rejects a raw cursor value that is not a token', () => {
+    const parsed = toParsed({
+      type: 'CURSOR',
+      limit: 10,
+      cursor: 7,
+      cursorProperty: 'id',
+      sortBy: [{ property: 'name', direction: 'ASC' }],
+    });
+
+    expect(() =>
+      applyDrizzlePaginationOnQuery(parsed, {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { id: users.id, name: users.name },
+      }),
+    ).toThrow(InvalidCursorError);
+  });
+
+  it('revives date values from a composite cursor', () => {
+    const parsed = toParsed({
+      type: 'CURSOR',
+      limit: 10,
+      cursor: cursorOf({ createdAt: new Date('2024-01-02T03:04:05.000Z'), id: 7 }),
+      cursorProperty: 'id',
+      sortBy: [{ property: 'createdAt', direction: 'DESC' }],
     });
 
-    generatePaginationQuery(parsed, {
+    const result = applyDrizzlePaginationOnQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => new QuerySpy(),
+      fields: { id: postsTable.id, createdAt: postsTable.createdAt },
+    });
+
+    const where = result.clauses.where;
+    expect(where).toBeDefined();
+    if (!where) return;
+    expect(pgDialect.sqlToQuery(where).params).toEqual([
+      0,
+      0,
+      '2024-01-02T03:04:05.000Z',
+      0,
+      '2024-01-02T03:04:05.000Z',
+      7,
+    ]);
+  });
+
+  it('rejects a cursor that misses a keyset column', () => {
+    const parsed = toParsed({
+      type: 'CURSOR',
+      limit: 10,
+      cursor: cursorOf({ id: 7 }),
+      cursorProperty: 'id',
+      sortBy: [{ property: 'name', direction: 'ASC' }],
+    });
+
+    expect(() =>
+      applyDrizzlePaginationOnQuery(parsed, {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { id: users.id, name: users.name },
+      }),
+    ).toThrow('Cursor token has no value for "name"');
+  });
+
+  it('rejects cursor values that are not strings, numbers or booleans', () => {
+    const build = (cursor: string): unknown =>
+      applyDrizzlePaginationOnQuery(
+        toParsed({ type: 'CURSOR', limit: 10, cursor, cursorProperty: 'id' }),
+        {
+          dialect: 'pg',
+          buildQuery: (): QuerySpy => new QuerySpy(),
+          fields: { id: users.id },
+        },
+      );
+
+    expect(() => build(cursorOf({ id: { $gt: 1 } }))).toThrow(
+      'Cursor token has an invalid value for "id"',
+    );
+    expect(() => build(cursorOf({ id: [1, 2] }))).toThrow(InvalidCursorError);
+    expect(() => build(cursorOf({ id: 7 }))).not.toThrow();
+  });
+
+  it('rejects malformed date and bigint cursor values', () => {
+    const views = defineComputedField(sql<bigint>`count(*)::bigint`, 'bigint');
+    const lastSeen = defineComputedField(sql<Date>`max(${postsTable.createdAt})`, 'date');
+    const build = (property: string, value: unknown): unknown =>
+      applyDrizzlePaginationOnQuery(
+        toParsed({
+          type: 'CURSOR',
+          limit: 10,
+          cursor: cursorOf({ [property]: value, id: 7 }),
+          cursorProperty: 'id',
+          sortBy: [{ property, direction: 'DESC' }],
+        }),
+        {
+          dialect: 'pg',
+          buildQuery: (): QuerySpy => new QuerySpy(),
+          fields: { id: postsTable.id, createdAt: postsTable.createdAt, views, lastSeen },
+        },
+      );
+
+    expect(() => build('createdAt', 'not-a-date')).toThrow(
+      'Cursor token has an invalid date for "createdAt"',
+    );
+    expect(() => build('lastSeen', 'not-a-date')).toThrow(InvalidCursorError);
+    expect(() => build('views', 'abc')).toThrow('Cursor token has an invalid integer for "views"');
+    expect(() => build('views', '1.5')).toThrow(InvalidCursorError);
+    expect(() => build('views', '-42')).not.toThrow();
+    expect(() => build('lastSeen', '2024-01-02T03:04:05.000Z')).not.toThrow();
+  });
+
+  it('verifies signed cursor tokens with the configured codec', () => {
+    const signedCodec = createCursorCodec({ secret: 's3cret' });
+    const token = signedCodec.encode({ values: { id: 7 } });
+
+    const build = (cursor: string): unknown =>
+      applyDrizzlePaginationOnQuery(
+        toParsed({ type: 'CURSOR', limit: 10, cursor, cursorProperty: 'id' }),
+        {
+          dialect: 'pg',
+          buildQuery: (): QuerySpy => new QuerySpy(),
+          fields: { id: users.id },
+          cursorCodec: signedCodec,
+        },
+      );
+
+    expect(() => build(token)).not.toThrow();
+    expect(() => build(cursorOf({ id: 7 }))).toThrow(InvalidCursorError);
+    expect(() => build(`${cursorOf({ id: 1 })}.${token.split('.')[1] ?? ''}`)).toThrow(
+      'Cursor token signature does not match',
+    );
+  });
+
+  it('inverts comparisons and ORDER BY for a "before" cursor', () => {
+    const query = new QuerySpy();
+
+    const parsed = toParsed({
+      type: 'CURSOR',
+      limit: 10,
+      cursor: cursorCodec.encode({ values: { name: 'bob', id: 7 }, direction: 'before' }),
+      cursorProperty: 'id',
+      sortBy: [{ property: 'name', direction: 'DESC' }],
+    });
+
+    const result = applyDrizzlePaginationOnQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => query,
+      fields: { id: users.id, name: users.name },
+    });
+
+    expect(result.clauses.cursorDirection).toBe('before');
+    const where = result.clauses.where;
+    expect(where).toBeDefined();
+    if (!where) return;
+    // Reading backwards, NULLs (last going forward) come first.
+    const nameIsNull = 'case when "users"."name" is null then 1 else 0 end';
+    expect(pgDialect.sqlToQuery(where).sql).toBe(
+      `(${nameIsNull} < $1 or (${nameIsNull} = $2 and "users"."name" > $3) or ` +
+        `(${nameIsNull} = $4 and "users"."name" = $5 and "users"."id" > $6))`,
+    );
+    expect(query.orderByCalls[0]?.map((o) => pgDialect.sqlToQuery(o).sql)).toEqual([
+      `${nameIsNull} desc`,
+      '"users"."name" asc',
+      '"users"."id" asc',
+    ]);
+  });
+
+  it('defaults to the "after" direction', () => {
+    const result = applyDrizzlePaginationOnQuery(
+      toParsed({ type: 'CURSOR', limit: 10, cursor: cursorOf({ id: 7 }), cursorProperty: 'id' }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { id: users.id },
+      },
+    );
+
+    expect(result.clauses.cursorDirection).toBe('after');
+  });
+});
+
+describe('createCursorCodec', () => {
+  it('round-trips payloads as base64url JSON', () => {
+    const token = cursorCodec.encode({ values: { name: 'bob', id: 7 } });
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(cursorCodec.decode(token)).toEqual({ values: { name: 'bob', id: 7 } });
+  });
+
+  it('serializes dates and bigints as strings', () => {
+    const token = cursorCodec.encode({
+      values: { createdAt: new Date('2024-01-01T00:00:00.000Z'), id: 10n },
+    });
+
+    expect(cursorCodec.decode(token).values).toEqual({
+      createdAt: '2024-01-01T00:00:00.000Z',
+      id: '10',
+    });
+  });
+
+  it('appends an HMAC signature when a secret is configured', () => {
+    const signedCodec = createCursorCodec({ secret: 's3cret' });
+    const token = signedCodec.encode({ values: { id: 7 } });
+
+    expect(token.split('.')).toHaveLength(2);
+    expect(signedCodec.decode(token)).toEqual({ values: { id: 7 } });
+    expect(() => createCursorCodec({ secret: 'other' }).decode(token)).toThrow(InvalidCursorError);
+  });
+
+  it('throws InvalidCursorError on malformed tokens', () => {
+    expect(() => cursorCodec.decode('not a token')).toThrow(InvalidCursorError);
+    expect(() => cursorCodec.decode('bm90IGpzb24')).toThrow(InvalidCursorError);
+    expect(() => cursorCodec.decode(Buffer.from('[1]').toString('base64url'))).toThrow(
+      InvalidCursorError,
+    );
+  });
+});
+
+describe('generatePaginationQuery', () => {
+  it('builds a main query and separate relation queries', () => {
+    const mainQuery = new QuerySpy();
+    const relationQuery = new QuerySpy();
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+      select: ['name', 'posts.title'],
+      sortBy: [{ property: 'name', direction: 'ASC' }],
+    });
+
+    const result = generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => mainQuery,
+      fields: { id: users.id, name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { id: postsTable.id, title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          buildQuery: (): QuerySpy => relationQuery,
+        },
+      ],
+    });
+
+    expect(result.query).toBe(mainQuery);
+    expect(result.relationQueries).toHaveLength(1);
+    expect(result.relationQueries[0]?.relationName).toBe('posts');
+    expect(result.relationQueries[0]?.foreignKeyAlias).toBe('__fk');
+  });
+
+  it('strips relation-prefixed fields from the main select', () => {
+    const mainQuery = new QuerySpy();
+    const relationQuery = new QuerySpy();
+    const buildMainQuery = vi.fn((): QuerySpy => mainQuery);
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+      select: ['name', 'posts.title', 'posts.id'],
+    });
+
+    generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: buildMainQuery,
+      fields: { id: users.id, name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { id: postsTable.id, title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          buildQuery: (): QuerySpy => relationQuery,
+        },
+      ],
+    });
+
+    // Main query should have 'name' + '__pk_posts' (parent key), but not 'posts.title'
+    expect(buildMainQuery).toHaveBeenCalledTimes(1);
+    expect(buildMainQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ name: users.name, __pk_posts: users.id }),
+    );
+    expect(buildMainQuery).not.toHaveBeenCalledWith(
+      expect.objectContaining({ posts_title: expect.anything() }),
+    );
+  });
+
+  it('routes relation-prefixed filters to the relation query only', () => {
+    const mainQuery = new QuerySpy();
+    const relationQuery = new QuerySpy();
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+      filters: {
+        type: 'and',
+        items: [
+          {
+            type: 'filter',
+            field: 'name',
+            condition: { group: 'name', op: '$eq', value: 'alice' },
+          },
+          {
+            type: 'filter',
+            field: 'posts.title',
+            condition: { group: 'posts.title', op: '$ilike', value: 'hello' },
+          },
+        ],
+      },
+    });
+
+    const result = generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => mainQuery,
+      fields: { name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          buildQuery: (): QuerySpy => relationQuery,
+        },
+      ],
+    });
+
+    // Main query has only the name filter
+    expect(mainQuery.whereCalls).toHaveLength(1);
+    // Relation query has only the title filter
+    expect(relationQuery.whereCalls).toHaveLength(1);
+    expect(result.relationQueries).toHaveLength(1);
+  });
+
+  it('routes relation-prefixed sortBy to the relation query only', () => {
+    const mainQuery = new QuerySpy();
+    const relationQuery = new QuerySpy();
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+      sortBy: [
+        { property: 'name', direction: 'ASC' },
+        { property: 'posts.title', direction: 'DESC' },
+      ],
+    });
+
+    generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => mainQuery,
+      fields: { name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          buildQuery: (): QuerySpy => relationQuery,
+        },
+      ],
+    });
+
+    // Main query sorted by name only
+    expect(mainQuery.orderByCalls).toHaveLength(1);
+    expect(mainQuery.orderByCalls[0]).toHaveLength(1);
+    // Relation query sorted by title only
+    expect(relationQuery.orderByCalls).toHaveLength(1);
+    expect(relationQuery.orderByCalls[0]).toHaveLength(1);
+  });
+
+  it('applies static relation orderBy on the relation query', () => {
+    const relationQuery = new QuerySpy();
+    const staticOrder = [sql`1`];
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+    });
+
+    generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => new QuerySpy(),
+      fields: { name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          orderBy: staticOrder,
+          buildQuery: (): QuerySpy => relationQuery,
+        },
+      ],
+    });
+
+    expect(relationQuery.orderByCalls).toHaveLength(1);
+    expect(relationQuery.orderByCalls[0]).toEqual(staticOrder);
+  });
+
+  it('appends static relation orderBy after client-requested sort', () => {
+    const relationQuery = new QuerySpy();
+    const staticOrder = [sql`2`];
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+      sortBy: [{ property: 'posts.title', direction: 'ASC' }],
+    });
+
+    generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => new QuerySpy(),
+      fields: { name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          orderBy: staticOrder,
+          buildQuery: (): QuerySpy => relationQuery,
+        },
+      ],
+    });
+
+    // One orderBy call with client sort + static sort concatenated
+    expect(relationQuery.orderByCalls).toHaveLength(1);
+    expect(relationQuery.orderByCalls[0]).toHaveLength(2);
+    // Static orderBy is at the end (tiebreaker)
+    expect(relationQuery.orderByCalls[0]?.[1]).toBe(staticOrder[0]);
+  });
+
+  it('passes relation limit through to relationQueries', () => {
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+    });
+
+    const result = generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => new QuerySpy(),
+      fields: { name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          limit: 3,
+          buildQuery: (): QuerySpy => new QuerySpy(),
+        },
+      ],
+    });
+
+    expect(result.relationQueries[0]?.limit).toBe(3);
+  });
+
+  it('computes selected relation aggregates with one grouped query', async () => {
+    const mainSpy = new QuerySpy();
+    const aggregateSpy = new QuerySpy();
+    const aggregateSelects: Record<string, unknown>[] = [];
+
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([
+        { __pk_posts: 1, name: 'Alice' },
+        { __pk_posts: 2, name: 'Bob' },
+      ]).then(onfulfilled),
+    );
+    vi.spyOn(aggregateSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ __fk: 1, __agg_0: 3, __agg_1: 'Zebra' }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['name', 'posts._count', 'posts.title._max'],
+        filters: {
+          type: 'filter',
+          field: 'posts.title',
+          condition: { group: 'title', op: '$ilike', value: 'z' },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        fields: { name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            aggregates: { count: true, max: ['title'] },
+            buildQuery: (select): QuerySpy => {
+              aggregateSelects.push(select);
+              return aggregateSpy;
+            },
+          }),
+        ],
+        count: 'none',
+      },
+    );
+
+    // Only aggregates are selected: the posts themselves are not fetched.
+    expect(result.relationQueries).toHaveLength(1);
+    expect(result.relationQueries[0]?.aggregates?.map((output) => output.key)).toEqual([
+      'posts__count',
+      'posts_title__max',
+    ]);
+
+    const { data } = await result.execute();
+
+    const select = aggregateSelects[aggregateSelects.length - 1] ?? {};
+    expect(Object.keys(select)).toEqual(['__agg_0', '__agg_1', '__fk']);
+    expect(aggregateSpy.groupByCalls[aggregateSpy.groupByCalls.length - 1]).toEqual([
+      postsTable.authorId,
+    ]);
+    const aggregateWhere = aggregateSpy.whereCalls[aggregateSpy.whereCalls.length - 1];
+    expect(aggregateWhere && pgDialect.sqlToQuery(aggregateWhere)).toEqual(
+      expect.objectContaining({
+        sql: '("posts"."title" ilike $1 and "posts"."author_id" in ($2, $3))',
+        params: ['%z%', 1, 2],
+      }),
+    );
+
+    const postCount: number | undefined = data[0]?.posts__count;
+    expect(postCount).toBe(3);
+    expect(data).toEqual([
+      { name: 'Alice', posts__count: 3, posts_title__max: 'Zebra' },
+      { name: 'Bob', posts__count: 0, posts_title__max: null },
+    ]);
+  });
+
+  it('treats undeclared aggregate paths as regular relation fields', () => {
+    expect(() =>
+      generatePaginationQuery(
+        toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['posts.title._sum'] }),
+        {
+          dialect: 'pg',
+          buildQuery: (): QuerySpy => new QuerySpy(),
+          fields: { name: users.name },
+          relations: [
+            defineRelation({
+              relationName: 'posts',
+              fields: { title: postsTable.title },
+              foreignKey: postsTable.authorId,
+              parentKey: users.id,
+              aggregates: { count: true },
+              buildQuery: (): QuerySpy => new QuerySpy(),
+            }),
+          ],
+        },
+      ),
+    ).toThrow('title._sum');
+  });
+
+  it('sorts parents by a relation aggregate through a correlated subquery', () => {
+    const proxyDb = drizzle(() => Promise.resolve({ rows: [] }));
+    const postsSpy = new QuerySpy();
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['name', 'posts.title'],
+        sortBy: [
+          { property: 'posts._count', direction: 'DESC' },
+          { property: 'posts.title', direction: 'ASC' },
+        ],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            aggregates: { count: true },
+            buildQuery: (select) =>
+              '__agg' in select ? proxyDb.select(select).from(postsTable) : postsSpy,
+          }),
+        ],
+      },
+    );
+
+    expect(result.clauses.orderBy?.map((order) => pgDialect.sqlToQuery(order).sql)).toEqual([
+      '(select count(*) from "posts" where "posts"."author_id" = "users"."id") desc',
+    ]);
+    // The posts themselves are still sorted by the relation sort items only.
+    const postsOrder = postsSpy.orderByCalls[postsSpy.orderByCalls.length - 1] ?? [];
+    expect(postsOrder.map((order) => pgDialect.sqlToQuery(order).sql)).toEqual([
+      '"posts"."title" asc',
+    ]);
+  });
+
+  it('keeps a relation aggregate sort key in the cursor', () => {
+    const proxyDb = drizzle(() => Promise.resolve({ rows: [] }));
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'CURSOR',
+        limit: 10,
+        cursor: cursorOf({ 'posts.createdAt._max': '2024-01-02T03:04:05.000Z', id: 7 }),
+        cursorProperty: 'id',
+        sortBy: [{ property: 'posts.createdAt._max', direction: 'DESC' }],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { id: users.id },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { createdAt: postsTable.createdAt },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            aggregates: { max: ['createdAt'] },
+            buildQuery: (select) => proxyDb.select(select).from(postsTable),
+          }),
+        ],
+      },
+    );
+
+    const max = '(select max("created_at") from "posts" where "posts"."author_id" = "users"."id")';
+    const isNull = `case when ${max} is null then 1 else 0 end`;
+    expect(result.clauses.cursorProperties).toEqual(['posts.createdAt._max', 'id']);
+    expect(Object.keys(result.clauses.select)).toContain('posts_createdAt__max');
+    // Parents without posts have a NULL max: the keyset sorts them last.
+    expect(result.clauses.orderBy?.map((order) => pgDialect.sqlToQuery(order).sql)).toEqual([
+      `${isNull} asc`,
+      `${max} desc`,
+      '"users"."id" desc',
+    ]);
+    const where = result.clauses.where;
+    expect(where && pgDialect.sqlToQuery(where)).toEqual(
+      expect.objectContaining({
+        sql:
+          `(${isNull} > $1 or (${isNull} = $2 and ${max} < $3) or ` +
+          `(${isNull} = $4 and ${max} = $5 and "users"."id" < $6))`,
+        params: [0, 0, '2024-01-02T03:04:05.000Z', 0, '2024-01-02T03:04:05.000Z', 7],
+      }),
+    );
+  });
+
+  it('continues a relation aggregate sort from a NULL cursor value', () => {
+    const proxyDb = drizzle(() => Promise.resolve({ rows: [] }));
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'CURSOR',
+        limit: 10,
+        cursor: cursorOf({ 'posts.id._sum': null, id: 7 }),
+        cursorProperty: 'id',
+        sortBy: [{ property: 'posts.id._sum', direction: 'ASC' }],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { id: users.id },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { id: postsTable.id },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            aggregates: { sum: ['id'] },
+            buildQuery: (select) => proxyDb.select(select).from(postsTable),
+          }),
+        ],
+      },
+    );
+
+    const sum = '(select sum("id") from "posts" where "posts"."author_id" = "users"."id")';
+    const isNull = `case when ${sum} is null then 1 else 0 end`;
+    const where = result.clauses.where;
+    expect(where && pgDialect.sqlToQuery(where)).toEqual(
+      expect.objectContaining({
+        sql: `(${isNull} > $1 or (${isNull} = $2 and ${sum} is null and "users"."id" > $3))`,
+        params: [1, 1, 7],
+      }),
+    );
+  });
+
+  it('rejects a NULL cursor value for a sort key that cannot be NULL', () => {
+    expect(() =>
+      generatePaginationQuery(
+        toParsed({
+          type: 'CURSOR',
+          limit: 10,
+          cursor: cursorOf({ name: 'bob', id: null }),
+          cursorProperty: 'id',
+          sortBy: [{ property: 'name', direction: 'ASC' }],
+        }),
+        {
+          dialect: 'pg',
+          buildQuery: (): QuerySpy => new QuerySpy(),
+          fields: { id: users.id, name: users.name },
+        },
+      ),
+    ).toThrow(InvalidCursorError);
+  });
+
+  it('continues a nullable column sort from a NULL cursor value', () => {
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'CURSOR',
+        limit: 10,
+        cursor: cursorOf({ name: null, id: 7 }),
+        cursorProperty: 'id',
+        sortBy: [{ property: 'name', direction: 'DESC' }],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { id: users.id, name: users.name },
+      },
+    );
+
+    // Only rows with a NULL name and a lower id follow, whatever the dialect's NULL order.
+    const nameIsNull = 'case when "users"."name" is null then 1 else 0 end';
+    const where = result.clauses.where;
+    expect(where && pgDialect.sqlToQuery(where)).toEqual(
+      expect.objectContaining({
+        sql:
+          `(${nameIsNull} > $1 or ` +
+          `(${nameIsNull} = $2 and "users"."name" is null and "users"."id" < $3))`,
+        params: [1, 1, 7],
+      }),
+    );
+  });
+
+  it('embeds strategy "json" relations in the main select as a correlated JSON aggregate', () => {
+    const proxyDb = drizzle(() => Promise.resolve({ rows: [] }));
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['name', 'posts.title'],
+        filters: {
+          type: 'filter',
+          field: 'posts.title',
+          condition: { group: 'title', op: '$ilike', value: 'foo' },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            strategy: 'json',
+            orderBy: [sql`${postsTable.id} desc`],
+            limit: 3,
+            buildQuery: (select) => proxyDb.select(select).from(postsTable),
+          }),
+        ],
+      },
+    );
+
+    expect(result.relationQueries).toEqual([]);
+    expect(Object.keys(result.clauses.select)).toEqual(['name', 'posts']);
+    expect(pgDialect.sqlToQuery(sql`${result.clauses.select.posts}`)).toEqual(
+      expect.objectContaining({
+        sql:
+          '(select coalesce(json_agg(json_build_object(\'title\', "__json"."title") ' +
+          'order by "__json"."__json_order"), \'[]\'::json) ' +
+          'from (select "title" as "title", "author_id", ' +
+          'row_number() over (order by "posts"."id" desc) as "__json_order" ' +
+          'from "posts" where ("posts"."author_id" = "users"."id" ' +
+          'and "posts"."title" ilike $1) order by "posts"."id" desc limit $2) as "__json")',
+        params: ['%foo%', 3],
+      }),
+    );
+  });
+
+  it('embeds the row position of strategy "json" relations on MySQL and sorts by it', async () => {
+    const proxyDb = drizzle(() =>
+      Promise.resolve({
+        rows: [
+          ['Alice', '[{"title":"Second","__json_order":2},{"title":"First","__json_order":1}]'],
+        ],
+      }),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['name', 'posts.title'] }),
+      {
+        dialect: 'mysql',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            strategy: 'json',
+            orderBy: [sql`${postsTable.id} desc`],
+            buildQuery: (select) => proxyDb.select(select).from(postsTable),
+          }),
+        ],
+      },
+    );
+
+    // JSON_ARRAYAGG cannot order its input: each object carries its position.
+    expect(mysqlDialect.sqlToQuery(sql`${result.clauses.select.posts}`).sql).toBe(
+      "(select coalesce(json_arrayagg(json_object('title', `__json`.`title`, " +
+        "'__json_order', `__json`.`__json_order`)), json_array()) " +
+        'from (select `title` as `title`, `author_id`, ' +
+        'row_number() over (order by `posts`.`id` desc) as `__json_order` ' +
+        'from `posts` where `posts`.`author_id` = `users`.`id` order by `posts`.`id` desc) as `__json`)',
+    );
+    const rows = await proxyDb.select(result.clauses.select).from(users);
+    expect(rows).toEqual([{ name: 'Alice', posts: [{ title: 'First' }, { title: 'Second' }] }]);
+  });
+
+  it('rejects strategy "json" on a relation nested in a query-loaded one', () => {
+    expect(() =>
+      generatePaginationQuery(toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10 }), {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            relations: [
+              defineRelation({
+                relationName: 'comments',
+                fields: { body: commentsTable.body },
+                foreignKey: commentsTable.postId,
+                parentKey: postsTable.id,
+                strategy: 'json',
+                buildQuery: (): QuerySpy => new QuerySpy(),
+              }),
+            ],
+            buildQuery: (): QuerySpy => new QuerySpy(),
+          }),
+        ],
+      }),
+    ).toThrow('strategy "json" requires its parent relation "posts" to use it too');
+  });
+
+  it('filters parents with EXISTS / NOT EXISTS for filterMode "parent" relations', () => {
+    const proxyDb = drizzle(() => Promise.resolve({ rows: [] }));
+    const mainSpy = new QuerySpy();
+    const postsSpy = new QuerySpy();
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['name', 'posts.title'],
+        filters: {
+          type: 'and',
+          items: [
+            { type: 'filter', field: 'name', condition: { group: 'name', op: '$eq', value: 'Al' } },
+            {
+              type: 'filter',
+              field: 'posts.title',
+              condition: { group: 'title', op: '$ilike', value: 'foo' },
+            },
+            {
+              type: 'filter',
+              field: 'posts.title',
+              condition: { group: 'title', op: '$eq', value: 'bar', not: true },
+            },
+          ],
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        fields: { name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            filterMode: 'parent',
+            buildQuery: (select) =>
+              '__exists' in select ? proxyDb.select(select).from(postsTable) : postsSpy,
+          }),
+        ],
+      },
+    );
+
+    expect(result.clauses.where && pgDialect.sqlToQuery(result.clauses.where)).toEqual(
+      expect.objectContaining({
+        sql:
+          '("users"."name" = $1 and (exists (select 1 from "posts" where ("posts"."author_id" = "users"."id" ' +
+          'and "posts"."title" ilike $2)) and not exists (select 1 from "posts" where ' +
+          '("posts"."author_id" = "users"."id" and "posts"."title" = $3))))',
+        params: ['Al', '%foo%', 'bar'],
+      }),
+    );
+    expect(mainSpy.whereCalls).toHaveLength(1);
+    // The relation rows are no longer narrowed by its filters.
+    expect(postsSpy.whereCalls).toHaveLength(0);
+  });
+
+  describe('mixed-scope or groups', () => {
+    const mixedFilters: PaginationPayload<DataSchema>['filters'] = {
+      type: 'and',
+      items: [
+        { type: 'filter', field: 'age', condition: { group: 'age', op: '$gt', value: 18 } },
+        {
+          type: 'or',
+          items: [
+            {
+              type: 'filter',
+              field: 'name',
+              condition: { group: 'name', op: '$eq', value: 'Eve' },
+            },
+            {
+              type: 'filter',
+              field: 'posts.title',
+              condition: { group: 'title', op: '$ilike', value: 'spam' },
+            },
+          ],
+        },
+      ],
+    };
+
+    it('rejects them with a MixedFilterScopeError by default', () => {
+      const run = (): unknown =>
+        generatePaginationQuery(
+          toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, filters: mixedFilters }),
+          {
+            dialect: 'pg',
+            buildQuery: (): QuerySpy => new QuerySpy(),
+            fields: { name: users.name, age: users.age },
+            relations: [
+              defineRelation({
+                relationName: 'posts',
+                fields: { title: postsTable.title },
+                foreignKey: postsTable.authorId,
+                parentKey: users.id,
+                buildQuery: (): QuerySpy => new QuerySpy(),
+              }),
+            ],
+          },
+        );
+
+      expect(run).toThrow(MixedFilterScopeError);
+      expect(run).toThrow('or(name, posts.title)');
+    });
+
+    it('compiles them into one parent predicate with mixedOrFilters "exists"', () => {
+      const proxyDb = drizzle(() => Promise.resolve({ rows: [] }));
+      const postsSpy = new QuerySpy();
+
+      const result = generatePaginationQuery(
+        toParsed({
+          type: 'LIMIT_OFFSET',
+          page: 1,
+          limit: 10,
+          select: ['name', 'posts.title'],
+          filters: mixedFilters,
+        }),
+        {
+          dialect: 'pg',
+          buildQuery: (): QuerySpy => new QuerySpy(),
+          fields: { name: users.name, age: users.age },
+          mixedOrFilters: 'exists',
+          relations: [
+            defineRelation({
+              relationName: 'posts',
+              fields: { title: postsTable.title },
+              foreignKey: postsTable.authorId,
+              parentKey: users.id,
+              buildQuery: (select) =>
+                '__exists' in select ? proxyDb.select(select).from(postsTable) : postsSpy,
+            }),
+          ],
+        },
+      );
+
+      expect(result.clauses.where && pgDialect.sqlToQuery(result.clauses.where)).toEqual(
+        expect.objectContaining({
+          sql:
+            '("users"."age" > $1 and ("users"."name" = $2 or exists (select 1 from "posts" where ' +
+            '("posts"."author_id" = "users"."id" and "posts"."title" ilike $3))))',
+          params: [18, 'Eve', '%spam%'],
+        }),
+      );
+      // The group filters parents only: the posts themselves are not narrowed.
+      expect(postsSpy.whereCalls).toHaveLength(0);
+    });
+  });
+
+  it('pushes the relation limit into SQL with row_number() per parent', () => {
+    const proxyDb = drizzle(() => Promise.resolve({ rows: [] }));
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['name', 'posts.title'],
+        sortBy: [{ property: 'posts.title', direction: 'DESC' }],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            limit: 2,
+            buildQuery: (select) => proxyDb.select(select).from(postsTable),
+          }),
+        ],
+      },
+    );
+
+    const query = result.relationQueries[0]?.query;
+    if (!isSQLWrapper(query)) throw new Error('expected an embeddable query');
+    expect(pgDialect.sqlToQuery(query.getSQL())).toEqual(
+      expect.objectContaining({
+        sql:
+          'select "title", "author_id" from "posts" where ("posts"."author_id", "posts"."id") in ' +
+          '(select "__rank_key_0", "__rank_key_1" from (select "author_id" as "__rank_key_0", ' +
+          '"id" as "__rank_key_1", row_number() over (partition by "posts"."author_id" ' +
+          'order by "posts"."title" desc) as "__rn" from "posts") as __ranked where "__rn" <= $1) ' +
+          'order by "posts"."title" desc',
+        params: [2],
+      }),
+    );
+  });
+
+  it('keeps the relation limit in memory with limitStrategy "memory"', () => {
+    const relationQuery = new QuerySpy();
+
+    generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['posts.title'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            limit: 2,
+            limitStrategy: 'memory',
+            buildQuery: (): QuerySpy => relationQuery,
+          }),
+        ],
+      },
+    );
+
+    expect(relationQuery.whereCalls).toHaveLength(0);
+  });
+
+  it('does not apply limit/offset on relation queries', () => {
+    const mainQuery = new QuerySpy();
+    const relationQuery = new QuerySpy();
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 2,
+      limit: 5,
+    });
+
+    generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => mainQuery,
+      fields: { name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          buildQuery: (): QuerySpy => relationQuery,
+        },
+      ],
+    });
+
+    // Main query has limit + offset
+    expect(mainQuery.limitCalls).toEqual([5]);
+    expect(mainQuery.offsetCalls).toEqual([5]);
+    // Relation query has neither
+    expect(relationQuery.limitCalls).toHaveLength(0);
+    expect(relationQuery.offsetCalls).toHaveLength(0);
+  });
+
+  it('always injects parent key into main select shape', () => {
+    const mainQuery = new QuerySpy();
+    const relationQuery = new QuerySpy();
+    const buildMainQuery = vi.fn((): QuerySpy => mainQuery);
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+    });
+
+    generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: buildMainQuery,
+      fields: { name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          buildQuery: (): QuerySpy => relationQuery,
+        },
+      ],
+    });
+
+    expect(buildMainQuery).toHaveBeenCalledWith(expect.objectContaining({ __pk_posts: users.id }));
+  });
+
+  it('always injects foreign key into relation select shape', () => {
+    const mainQuery = new QuerySpy();
+    const buildRelationQuery = vi.fn((): QuerySpy => new QuerySpy());
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+      select: ['posts.title'],
+    });
+
+    generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => mainQuery,
+      fields: { name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          buildQuery: buildRelationQuery,
+        },
+      ],
+    });
+
+    expect(buildRelationQuery).toHaveBeenCalledTimes(1);
+    expect(buildRelationQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        __fk: postsTable.authorId,
+        title: postsTable.title,
+      }),
+    );
+  });
+
+  it('exposes assemble() that assembles main rows with relation results', () => {
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 1,
+      limit: 10,
+      select: ['name', 'posts.title'],
+    });
+
+    const result = generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => new QuerySpy(),
+      fields: { name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          buildQuery: (): QuerySpy => new QuerySpy(),
+        },
+      ],
+    });
+
+    const mainRows = [{ __pk_posts: 1, name: 'Alice' }];
+    const relationResults = [[{ __fk: 1, title: 'Hello' }]];
+
+    const assembled = result.assemble(mainRows, relationResults);
+
+    expect(assembled).toHaveLength(1);
+    expect(assembled[0]).toEqual({ name: 'Alice', posts: [{ title: 'Hello' }] });
+  });
+
+  it('execute() returns { data, pagination } for LIMIT_OFFSET', async () => {
+    const mainSpy = new QuerySpy();
+    const relationSpy = new QuerySpy();
+    const countSpy = new QuerySpy();
+
+    // Make QuerySpy resolve with specific data.
+    const mainData = [{ __pk_posts: 1, name: 'Alice' }];
+    const relationData = [{ __fk: 1, title: 'Hello' }];
+    const countData = [{ count: 42 }];
+
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve(mainData).then(onfulfilled),
+    );
+    vi.spyOn(relationSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve(relationData).then(onfulfilled),
+    );
+    vi.spyOn(countSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve(countData).then(onfulfilled),
+    );
+
+    const parsed = toParsed({
+      type: 'LIMIT_OFFSET',
+      page: 2,
+      limit: 10,
+      select: ['name', 'posts.title'],
+    });
+
+    // buildQuery is called twice: once for main query, once for count query.
+    const spies = [mainSpy, countSpy];
+    let callIdx = 0;
+
+    const result = generatePaginationQuery(parsed, {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => {
+        const spy = spies[callIdx++];
+        if (!spy) throw new Error('Unexpected buildQuery call');
+        return spy;
+      },
+      fields: { name: users.name },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          buildQuery: (): QuerySpy => relationSpy,
+        },
+      ],
+    });
+
+    const { data, pagination } = await result.execute();
+
+    expect(data).toHaveLength(1);
+    expect(data[0]).toEqual({ name: 'Alice', posts: [{ title: 'Hello' }] });
+    expect(pagination).toEqual(
+      expect.objectContaining({
+        itemsPerPage: 10,
+        totalItems: 42,
+        currentPage: 2,
+        totalPages: 5,
+        countMode: 'exact',
+      }),
+    );
+  });
+
+  it('count "none" skips the count query and reports hasNextPage', async () => {
+    const mainSpy = new QuerySpy();
+    const buildMainQuery = vi.fn((): QuerySpy => mainSpy);
+
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ name: 'Alice' }, { name: 'Bob' }, { name: 'Carol' }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 2, select: ['name'] }),
+      {
+        dialect: 'pg',
+        buildQuery: buildMainQuery,
+        fields: { name: users.name },
+        count: 'none',
+      },
+    );
+
+    expect(mainSpy.limitCalls).toEqual([3]);
+
+    const { data, pagination } = await result.execute();
+
+    expect(buildMainQuery).toHaveBeenCalledTimes(1);
+    expect(data).toEqual([{ name: 'Alice' }, { name: 'Bob' }]);
+    expect(pagination).toEqual(
+      expect.objectContaining({
+        itemsPerPage: 2,
+        currentPage: 1,
+        totalItems: null,
+        totalPages: null,
+        countMode: 'none',
+        hasNextPage: true,
+      }),
+    );
+  });
+
+  it('count "window" reads the total from the page and strips the window column', async () => {
+    const mainSpy = new QuerySpy();
+    const selects: Record<string, unknown>[] = [];
+
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([
+        { name: 'Alice', __total_count: '12' },
+        { name: 'Bob', __total_count: '12' },
+      ]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 2, select: ['name'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (select): QuerySpy => {
+          selects.push(select);
+          return mainSpy;
+        },
+        fields: { name: users.name },
+        count: 'window',
+      },
+    );
+
+    const windowCount = selects[0]?.__total_count;
+    expect(windowCount).toBeInstanceOf(SQL);
+    if (!(windowCount instanceof SQL)) return;
+    expect(pgDialect.sqlToQuery(windowCount).sql).toBe('count(*) over()');
+    expect(Object.keys(result.clauses.select)).toEqual(['name']);
+    expect(result.assemble([{ name: 'Alice', __total_count: '12' }], [])).toEqual([
+      { name: 'Alice' },
+    ]);
+
+    const { data, pagination } = await result.execute();
+
+    expect(selects).toHaveLength(1);
+    expect(data).toEqual([{ name: 'Alice' }, { name: 'Bob' }]);
+    expect(pagination).toEqual(
+      expect.objectContaining({ totalItems: 12, totalPages: 6, countMode: 'exact' }),
+    );
+  });
+
+  it('count "window" falls back to a count query when the page is empty', async () => {
+    const countSpy = new QuerySpy();
+    const spies = [new QuerySpy(), countSpy];
+    let callIdx = 0;
+
+    vi.spyOn(countSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ count: 4 }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 3, limit: 2, select: ['name'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => {
+          const spy = spies[callIdx++];
+          if (!spy) throw new Error('Unexpected buildQuery call');
+          return spy;
+        },
+        fields: { name: users.name },
+        count: 'window',
+      },
+    );
+
+    const { data, pagination } = await result.execute();
+
+    expect(callIdx).toBe(2);
+    expect(data).toEqual([]);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 4, countMode: 'exact' }));
+  });
+
+  it('countStrategy "distinct" counts distinct key values', async () => {
+    const countSpy = new QuerySpy();
+    const selects: Record<string, unknown>[] = [];
+    const spies = [new QuerySpy(), countSpy];
+
+    vi.spyOn(countSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ count: 7 }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['name'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (select): QuerySpy => {
+          selects.push(select);
+          const spy = spies[selects.length - 1];
+          if (!spy) throw new Error('Unexpected buildQuery call');
+          return spy;
+        },
+        fields: { name: users.name },
+        countStrategy: 'distinct',
+        countDistinctKey: [users.id, users.name],
+      },
+    );
+
+    const { pagination } = await result.execute();
+
+    const count = selects[1]?.count;
+    expect(count).toBeInstanceOf(SQL);
+    if (!(count instanceof SQL)) return;
+    expect(pgDialect.sqlToQuery(count).sql).toBe('count(distinct ("users"."id", "users"."name"))');
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 7 }));
+  });
+
+  it('countStrategy "distinct" requires countDistinctKey', () => {
+    expect(() =>
+      generatePaginationQuery(toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10 }), {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { name: users.name },
+        countStrategy: 'distinct',
+      }),
+    ).toThrow(DrizzlePaginationError);
+  });
+
+  it('count "window" rejects countStrategy "distinct"', () => {
+    expect(() =>
+      generatePaginationQuery(toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10 }), {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { name: users.name },
+        count: 'window',
+        countStrategy: 'distinct',
+        countDistinctKey: users.id,
+      }),
+    ).toThrow('count "window" cannot be combined with countStrategy "distinct"');
+  });
+
+  it('countStrategy "subquery" rejects query builders that cannot be embedded', async () => {
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['name'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { name: users.name },
+        countStrategy: 'subquery',
+      },
+    );
+
+    await expect(result.execute()).rejects.toThrow(
+      'countStrategy "subquery" requires buildQuery to return a Drizzle query builder',
+    );
+  });
+
+  it('buildCountQuery replaces buildQuery for the count and keeps the filter', async () => {
+    const countSpy = new QuerySpy();
+    const buildMainQuery = vi.fn((): QuerySpy => new QuerySpy());
+
+    vi.spyOn(countSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ count: 2 }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        filters: {
+          type: 'filter',
+          field: 'name',
+          condition: { group: 'name', op: '$eq', value: 'Al' },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: buildMainQuery,
+        buildCountQuery: (): QuerySpy => countSpy,
+        fields: { name: users.name },
+      },
+    );
+
+    const { pagination } = await result.execute();
+
+    expect(buildMainQuery).toHaveBeenCalledTimes(1);
+    expect(countSpy.whereCalls).toHaveLength(1);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 2 }));
+  });
+
+  it('baseWhere is ANDed with the client filters of the page and count queries', async () => {
+    const mainSpy = new QuerySpy();
+    const countSpy = new QuerySpy();
+
+    vi.spyOn(countSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ count: 1 }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        filters: {
+          type: 'filter',
+          field: 'name',
+          condition: { group: 'name', op: '$eq', value: 'Al' },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        buildCountQuery: (): QuerySpy => countSpy,
+        fields: { name: users.name },
+        baseWhere: sql`${users.age} >= ${18}`,
+      },
+    );
+
+    await result.execute();
+
+    const expected = expect.objectContaining({
+      sql: '("users"."age" >= $1 and "users"."name" = $2)',
+      params: [18, 'Al'],
+    });
+    const [mainWhere] = mainSpy.whereCalls;
+    const [countWhere] = countSpy.whereCalls;
+    expect(mainWhere && pgDialect.sqlToQuery(mainWhere)).toEqual(expected);
+    expect(countWhere && pgDialect.sqlToQuery(countWhere)).toEqual(expected);
+  });
+
+  it('ANDs the static where of a relation into its query and its EXISTS filter', async () => {
+    const mainSpy = new QuerySpy();
+    const postsSpy = new QuerySpy();
+    const db = drizzle(async () => Promise.resolve({ rows: [] }));
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ __pk_posts: 1, name: 'Alice' }]).then(onfulfilled),
+    );
+
+    const postsRelation = defineRelation({
+      relationName: 'posts',
+      fields: { title: postsTable.title },
+      foreignKey: postsTable.authorId,
+      parentKey: users.id,
+      where: sql`${postsTable.createdAt} is not null`,
+      buildQuery: (): QuerySpy => postsSpy,
+    });
+    const draftsRelation = defineRelation({
+      relationName: 'drafts',
+      fields: { title: postsTable.title },
+      foreignKey: postsTable.authorId,
+      parentKey: users.id,
+      where: sql`${postsTable.createdAt} is null`,
+      filterMode: 'parent',
+      buildQuery: (select) => db.select(select).from(postsTable),
+    });
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['name', 'posts.title'],
+        filters: {
+          type: 'filter',
+          field: 'drafts.title',
+          condition: { group: 'title', op: '$eq', value: 'WIP' },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        fields: { name: users.name },
+        relations: [postsRelation, draftsRelation],
+        count: 'none',
+      },
+    );
+
+    await result.execute();
+
+    const [mainWhere] = mainSpy.whereCalls;
+    expect(mainWhere && pgDialect.sqlToQuery(mainWhere).sql).toBe(
+      'exists (select 1 from "posts" where ("posts"."author_id" = "users"."id" and "posts"."created_at" is null and "posts"."title" = $1))',
+    );
+    const postsWhere = postsSpy.whereCalls[postsSpy.whereCalls.length - 1];
+    expect(postsWhere && pgDialect.sqlToQuery(postsWhere)).toEqual(
+      expect.objectContaining({
+        sql: '("posts"."created_at" is not null and "posts"."author_id" in ($1))',
+        params: [1],
+      }),
+    );
+  });
+
+  it('count "estimated" reads the table statistics when the query is unfiltered', async () => {
+    const mainSpy = new QuerySpy();
+    const estimateSpy = new QuerySpy();
+    const selects: Record<string, unknown>[] = [];
+    const spies = [mainSpy, estimateSpy];
+
+    vi.spyOn(estimateSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ count: '1000' }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['name'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (select): QuerySpy => {
+          selects.push(select);
+          const spy = spies[selects.length - 1];
+          if (!spy) throw new Error('Unexpected buildQuery call');
+          return spy;
+        },
+        fields: { name: users.name },
+        count: 'estimated',
+      },
+    );
+
+    const { pagination } = await result.execute();
+
+    const estimate = selects[1]?.count;
+    expect(estimate).toBeInstanceOf(SQL);
+    if (!(estimate instanceof SQL)) return;
+    expect(pgDialect.sqlToQuery(estimate)).toEqual(
+      expect.objectContaining({
+        sql: expect.stringContaining('select c.reltuples::bigint from pg_class c'),
+        params: ['public', 'users'],
+      }),
+    );
+    expect(estimateSpy.limitCalls).toEqual([1]);
+    expect(pagination).toEqual(
+      expect.objectContaining({ totalItems: 1000, totalPages: 100, countMode: 'estimated' }),
+    );
+  });
+
+  it('count "estimated" falls back to an exact count for filtered queries', async () => {
+    const countSpy = new QuerySpy();
+    const spies = [new QuerySpy(), countSpy];
+    let callIdx = 0;
+
+    vi.spyOn(countSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ count: 3 }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        filters: {
+          type: 'filter',
+          field: 'name',
+          condition: { group: 'name', op: '$eq', value: 'Alice' },
+        },
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => {
+          const spy = spies[callIdx++];
+          if (!spy) throw new Error('Unexpected buildQuery call');
+          return spy;
+        },
+        fields: { name: users.name },
+        count: 'estimated',
+      },
+    );
+
+    const { pagination } = await result.execute();
+
+    expect(countSpy.whereCalls).toHaveLength(1);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 3, countMode: 'exact' }));
+  });
+
+  it('count "estimated" falls back to an exact count when fields span several tables', async () => {
+    const countSpy = new QuerySpy();
+    const spies = [new QuerySpy(), countSpy];
+    let callIdx = 0;
+
+    vi.spyOn(countSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ count: 7 }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10 }), {
+      dialect: 'pg',
+      buildQuery: (): QuerySpy => {
+        const spy = spies[callIdx++];
+        if (!spy) throw new Error('Unexpected buildQuery call');
+        return spy;
+      },
+      fields: { title: postsTable.title, authorName: users.name },
+      count: 'estimated',
+    });
+
+    const { pagination } = await result.execute();
+
+    expect(callIdx).toBe(2);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 7, countMode: 'exact' }));
+  });
+
+  it('count "estimated" reads the estimate of estimateTable', async () => {
+    const estimateSpy = new QuerySpy();
+    const selects: Record<string, unknown>[] = [];
+    const spies = [new QuerySpy(), estimateSpy];
+
+    vi.spyOn(estimateSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ count: 50 }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10 }), {
       dialect: 'pg',
-      buildQuery: (): QuerySpy => new QuerySpy(),
-      fields: { name: users.name },
-      relations: [
-        {
-          relationName: 'posts',
-          fields: { title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
-          orderBy: staticOrder,
-          buildQuery: (): QuerySpy => relationQuery,
-        },
-      ],
+      buildQuery: (select): QuerySpy => {
+        selects.push(select);
+        const spy = spies[selects.length - 1];
+        if (!spy) throw new Error('Unexpected buildQuery call');
+        return spy;
+      },
+      fields: { title: postsTable.title, authorName: users.name },
+      count: 'estimated',
+      estimateTable: postsTable,
     });
 
-    // One orderBy call with client sort + static sort concatenated
-    expect(relationQuery.orderByCalls).toHaveLength(1);
-    expect(relationQuery.orderByCalls[0]).toHaveLength(2);
-    // Static orderBy is at the end (tiebreaker)
-    expect(relationQuery.orderByCalls[0]?.[1]).toBe(staticOrder[0]);
+    const { pagination } = await result.execute();
+
+    const estimate = selects[1]?.count;
+    expect(estimate instanceof SQL && pgDialect.sqlToQuery(estimate).params).toEqual([
+      'public',
+      'posts',
+    ]);
+    expect(pagination).toEqual(expect.objectContaining({ totalItems: 50, countMode: 'estimated' }));
   });
 
-  it('passes relation limit through to relationQueries', () => {
+  it('execute() returns { data, pagination } for CURSOR', async () => {
+    const mainSpy = new QuerySpy();
+    const mainData = [
+      { __pk_posts: 1, id: 43, name: 'Alice' },
+      { __pk_posts: 2, id: 44, name: 'Bob' },
+    ];
+
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve(mainData).then(onfulfilled),
+    );
+
     const parsed = toParsed({
-      type: 'LIMIT_OFFSET',
-      page: 1,
+      type: 'CURSOR',
       limit: 10,
+      cursor: cursorOf({ id: 42 }),
+      cursorProperty: 'id',
+      select: ['id', 'name', 'posts.title'],
+      sortBy: [{ property: 'id', direction: 'ASC' }],
     });
 
     const result = generatePaginationQuery(parsed, {
       dialect: 'pg',
-      buildQuery: (): QuerySpy => new QuerySpy(),
-      fields: { name: users.name },
+      buildQuery: (): QuerySpy => mainSpy,
+      fields: { id: users.id, name: users.name },
       relations: [
         {
           relationName: 'posts',
           fields: { title: postsTable.title },
           foreignKey: postsTable.authorId,
           parentKey: users.id,
-          limit: 3,
           buildQuery: (): QuerySpy => new QuerySpy(),
         },
       ],
     });
 
-    expect(result.relationQueries[0]?.limit).toBe(3);
+    const { data, pagination } = await result.execute();
+
+    expect(data).toHaveLength(2);
+    expect(pagination).toEqual(expect.objectContaining({ itemsPerPage: 10 }));
+    expect('cursor' in pagination && decodeCursor(pagination.cursor)).toEqual({ id: 44 });
   });
 
-  it('does not apply limit/offset on relation queries', () => {
-    const mainQuery = new QuerySpy();
-    const relationQuery = new QuerySpy();
+  it('execute() restores the requested order when paging backwards', async () => {
+    const mainSpy = new QuerySpy();
+    // Rows come back in the inverted order of a "before" cursor.
+    const mainData = [
+      { id: 41, name: 'Zoe' },
+      { id: 40, name: 'Yan' },
+    ];
+
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve(mainData).then(onfulfilled),
+    );
 
     const parsed = toParsed({
-      type: 'LIMIT_OFFSET',
-      page: 2,
-      limit: 5,
+      type: 'CURSOR',
+      limit: 2,
+      cursor: cursorCodec.encode({ values: { id: 42 }, direction: 'before' }),
+      cursorProperty: 'id',
+      sortBy: [{ property: 'id', direction: 'ASC' }],
     });
 
-    generatePaginationQuery(parsed, {
+    const result = generatePaginationQuery(parsed, {
       dialect: 'pg',
-      buildQuery: (): QuerySpy => mainQuery,
-      fields: { name: users.name },
-      relations: [
-        {
-          relationName: 'posts',
-          fields: { title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
-          buildQuery: (): QuerySpy => relationQuery,
-        },
-      ],
+      buildQuery: (): QuerySpy => mainSpy,
+      fields: { id: users.id, name: users.name },
     });
 
-    // Main query has limit + offset
-    expect(mainQuery.limitCalls).toEqual([5]);
-    expect(mainQuery.offsetCalls).toEqual([5]);
-    // Relation query has neither
-    expect(relationQuery.limitCalls).toHaveLength(0);
-    expect(relationQuery.offsetCalls).toHaveLength(0);
+    const { data, pagination } = await result.execute();
+
+    expect(data.map((row) => row.id)).toEqual([40, 41]);
+    if (!('nextCursor' in pagination)) throw new Error('expected cursor meta');
+    expect(decodeCursor(pagination.nextCursor)).toEqual({ id: 41 });
+    expect(cursorCodec.decode(String(pagination.previousCursor))).toEqual({
+      values: { id: 40 },
+      direction: 'before',
+    });
   });
 
-  it('always injects parent key into main select shape', () => {
-    const mainQuery = new QuerySpy();
-    const relationQuery = new QuerySpy();
-    const buildMainQuery = vi.fn((): QuerySpy => mainQuery);
+  it('detectNextPage fetches limit + 1 rows and drops the sentinel row', async () => {
+    const mainSpy = new QuerySpy();
+    const relationSpy = new QuerySpy();
+    const mainData = [
+      { __pk_posts: 1, id: 1 },
+      { __pk_posts: 2, id: 2 },
+      { __pk_posts: 3, id: 3 },
+    ];
 
-    const parsed = toParsed({
-      type: 'LIMIT_OFFSET',
-      page: 1,
-      limit: 10,
-    });
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve(mainData).then(onfulfilled),
+    );
 
-    generatePaginationQuery(parsed, {
-      dialect: 'pg',
-      buildQuery: buildMainQuery,
-      fields: { name: users.name },
-      relations: [
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'CURSOR',
+        limit: 2,
+        cursorProperty: 'id',
+        select: ['id', 'posts.title'],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        fields: { id: users.id },
+        relations: [
+          {
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            buildQuery: (): QuerySpy => relationSpy,
+          },
+        ],
+        detectNextPage: true,
+      },
+    );
+
+    expect(result.clauses.limit).toBe(2);
+    expect(mainSpy.limitCalls).toEqual([3]);
+
+    const { data, pagination } = await result.execute();
+
+    expect(data.map((row) => row.id)).toEqual([1, 2]);
+    const scope = relationSpy.whereCalls[0];
+    expect(scope && pgDialect.sqlToQuery(scope).params).toEqual([1, 2]);
+    if (!('nextCursor' in pagination)) throw new Error('expected cursor meta');
+    expect(pagination.hasNextPage).toBe(true);
+    expect(decodeCursor(pagination.nextCursor)).toEqual({ id: 2 });
+  });
+
+  it('detectNextPage reports the last page without a next cursor', async () => {
+    const mainSpy = new QuerySpy();
+
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ id: 1 }, { id: 2 }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'CURSOR', limit: 2, cursorProperty: 'id' }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        fields: { id: users.id },
+        detectNextPage: true,
+      },
+    );
+
+    const { data, pagination } = await result.execute();
+
+    expect(data).toHaveLength(2);
+    if (!('nextCursor' in pagination)) throw new Error('expected cursor meta');
+    expect(pagination.hasNextPage).toBe(false);
+    expect(pagination.hasPreviousPage).toBe(false);
+    expect(pagination.nextCursor).toBeNull();
+    expect(pagination.cursor).toBeNull();
+  });
+
+  it('detectNextPage probes backwards from a before cursor', async () => {
+    const fetchPage = async (
+      mainData: Record<string, unknown>[],
+    ): Promise<DrizzleCursorPaginationResponseMeta> => {
+      const mainSpy = new QuerySpy();
+      vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+        Promise.resolve(mainData).then(onfulfilled),
+      );
+      const result = generatePaginationQuery(
+        toParsed({
+          type: 'CURSOR',
+          limit: 2,
+          cursor: cursorCodec.encode({ values: { id: 42 }, direction: 'before' }),
+          cursorProperty: 'id',
+        }),
         {
-          relationName: 'posts',
-          fields: { title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
-          buildQuery: (): QuerySpy => relationQuery,
+          dialect: 'pg',
+          buildQuery: (): QuerySpy => mainSpy,
+          fields: { id: users.id },
+          detectNextPage: true,
         },
-      ],
-    });
+      );
+      const { data, pagination } = await result.execute();
+      expect(data.map((row) => row.id)).toEqual([40, 41]);
+      if (!('nextCursor' in pagination)) throw new Error('expected cursor meta');
+      return pagination;
+    };
 
-    expect(buildMainQuery).toHaveBeenCalledWith(expect.objectContaining({ __pk_posts: users.id }));
+    const middle = await fetchPage([{ id: 41 }, { id: 40 }, { id: 39 }]);
+    expect(middle).toEqual(expect.objectContaining({ hasNextPage: true, hasPreviousPage: true }));
+    expect(cursorCodec.decode(String(middle.previousCursor)).values).toEqual({ id: 40 });
+    expect(decodeCursor(middle.nextCursor)).toEqual({ id: 41 });
+
+    const first = await fetchPage([{ id: 41 }, { id: 40 }]);
+    expect(first).toEqual(
+      expect.objectContaining({ hasNextPage: true, hasPreviousPage: false, previousCursor: null }),
+    );
+    expect(decodeCursor(first.nextCursor)).toEqual({ id: 41 });
   });
 
-  it('always injects foreign key into relation select shape', () => {
-    const mainQuery = new QuerySpy();
-    const buildRelationQuery = vi.fn((): QuerySpy => new QuerySpy());
+  it('routes nested relation paths to a query scoped by the parent relation rows', async () => {
+    const mainSpy = new QuerySpy();
+    const postsSpy = new QuerySpy();
+    const commentsSpy = new QuerySpy();
+    const postsSelects: Record<string, unknown>[] = [];
+    const commentsSelects: Record<string, unknown>[] = [];
 
-    const parsed = toParsed({
-      type: 'LIMIT_OFFSET',
-      page: 1,
-      limit: 10,
-      select: ['posts.title'],
-    });
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ __pk_posts: 1, name: 'Alice' }]).then(onfulfilled),
+    );
+    vi.spyOn(postsSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([
+        { __fk: 1, __pk_comments: 10, title: 'Hello' },
+        { __fk: 1, __pk_comments: 11, title: 'World' },
+      ]).then(onfulfilled),
+    );
+    vi.spyOn(commentsSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ __fk: 11, body: 'Nice' }]).then(onfulfilled),
+    );
 
-    generatePaginationQuery(parsed, {
-      dialect: 'pg',
-      buildQuery: (): QuerySpy => mainQuery,
-      fields: { name: users.name },
-      relations: [
-        {
-          relationName: 'posts',
-          fields: { title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
-          buildQuery: buildRelationQuery,
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['name', 'posts.title', 'posts.comments.body'],
+        sortBy: [{ property: 'posts.comments.body', direction: 'DESC' }],
+        filters: {
+          type: 'filter',
+          field: 'posts.comments.body',
+          condition: { group: 'body', op: '$eq', value: 'Nice' },
         },
-      ],
-    });
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        fields: { name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            buildQuery: (select): QuerySpy => {
+              postsSelects.push(select);
+              return postsSpy;
+            },
+            relations: [
+              defineRelation({
+                relationName: 'comments',
+                fields: { body: commentsTable.body },
+                foreignKey: commentsTable.postId,
+                parentKey: postsTable.id,
+                buildQuery: (select): QuerySpy => {
+                  commentsSelects.push(select);
+                  return commentsSpy;
+                },
+              }),
+            ],
+          }),
+        ],
+        count: 'none',
+      },
+    );
 
-    expect(buildRelationQuery).toHaveBeenCalledTimes(1);
-    expect(buildRelationQuery).toHaveBeenCalledWith(
+    expect(result.relationQueries[0]?.relations).toHaveLength(1);
+
+    const { data } = await result.execute();
+
+    // The posts query selects its own fields plus the comments parent key only.
+    expect(Object.keys(postsSelects[0] ?? {})).toEqual(['title', '__fk', '__pk_comments']);
+    expect(postsSpy.whereCalls).toHaveLength(1);
+    expect(postsSpy.orderByCalls).toHaveLength(0);
+
+    expect(Object.keys(commentsSelects[0] ?? {})).toEqual(['body', '__fk']);
+    const commentsWhere = commentsSpy.whereCalls[commentsSpy.whereCalls.length - 1];
+    expect(commentsWhere && pgDialect.sqlToQuery(commentsWhere)).toEqual(
       expect.objectContaining({
-        __fk: postsTable.authorId,
-        title: postsTable.title,
+        sql: '("comments"."body" = $1 and "comments"."post_id" in ($2, $3))',
+        params: ['Nice', 10, 11],
       }),
     );
+    expect(
+      commentsSpy.orderByCalls[commentsSpy.orderByCalls.length - 1]?.map(
+        (o) => pgDialect.sqlToQuery(o).sql,
+      ),
+    ).toEqual(['"comments"."body" desc']);
+
+    const comments: { body?: string | null }[] | undefined = data[0]?.posts[1]?.comments;
+    expect(comments).toEqual([{ body: 'Nice' }]);
+    expect(data[0]?.posts[0]).toEqual({ title: 'Hello', comments: [] });
   });
 
-  it('exposes assemble() that assembles main rows with relation results', () => {
-    const parsed = toParsed({
-      type: 'LIMIT_OFFSET',
-      page: 1,
-      limit: 10,
-      select: ['name', 'posts.title'],
-    });
+  it('joins through the junction table and scopes by its parent-side column', async () => {
+    const mainSpy = new QuerySpy();
+    const rolesSpy = new QuerySpy();
+    const rolesSelects: Record<string, unknown>[] = [];
 
-    const result = generatePaginationQuery(parsed, {
-      dialect: 'pg',
-      buildQuery: (): QuerySpy => new QuerySpy(),
-      fields: { name: users.name },
-      relations: [
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([
+        { __pk_roles: 1, name: 'Alice' },
+        { __pk_roles: 2, name: 'Bob' },
+      ]).then(onfulfilled),
+    );
+    vi.spyOn(rolesSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([
+        { __fk: 1, name: 'admin' },
+        { __fk: 1, name: 'editor' },
+        { __fk: 2, name: 'editor' },
+      ]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['name', 'roles.name'],
+        sortBy: [{ property: 'roles.name', direction: 'ASC' }],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        fields: { name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'roles',
+            fields: { name: rolesTable.name },
+            foreignKey: rolesTable.id,
+            parentKey: users.id,
+            through: {
+              table: usersToRolesTable,
+              parentKey: usersToRolesTable.userId,
+              childKey: usersToRolesTable.roleId,
+            },
+            buildQuery: (select): QuerySpy => {
+              rolesSelects.push(select);
+              return rolesSpy;
+            },
+          }),
+        ],
+        count: 'none',
+      },
+    );
+
+    const { data } = await result.execute();
+
+    expect(rolesSelects[0]).toEqual({ name: rolesTable.name, __fk: usersToRolesTable.userId });
+    // Built once unscoped by generatePaginationQuery, then scoped by execute().
+    expect(rolesSpy.innerJoinCalls).toHaveLength(2);
+    const join = rolesSpy.innerJoinCalls[rolesSpy.innerJoinCalls.length - 1];
+    expect(join?.table).toBe(usersToRolesTable);
+    expect(join && pgDialect.sqlToQuery(join.on).sql).toBe(
+      '"users_to_roles"."role_id" = "roles"."id"',
+    );
+    const rolesWhere = rolesSpy.whereCalls[rolesSpy.whereCalls.length - 1];
+    expect(rolesWhere && pgDialect.sqlToQuery(rolesWhere)).toEqual(
+      expect.objectContaining({
+        sql: '"users_to_roles"."user_id" in ($1, $2)',
+        params: [1, 2],
+      }),
+    );
+    expect(data).toEqual([
+      { name: 'Alice', roles: [{ name: 'admin' }, { name: 'editor' }] },
+      { name: 'Bob', roles: [{ name: 'editor' }] },
+    ]);
+  });
+
+  it('rejects a through childKey that does not match foreignKey', () => {
+    expect(() =>
+      generatePaginationQuery(
+        toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['roles.name'] }),
         {
-          relationName: 'posts',
-          fields: { title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
+          dialect: 'pg',
+          buildQuery: (): QuerySpy => new QuerySpy(),
+          fields: { name: users.name },
+          relations: [
+            defineRelation({
+              relationName: 'roles',
+              fields: { name: rolesTable.name },
+              foreignKey: rolesTable.id,
+              parentKey: users.id,
+              through: {
+                table: usersToRolesTable,
+                parentKey: usersToRolesTable.userId,
+                childKey: [usersToRolesTable.roleId, usersToRolesTable.userId],
+              },
+              buildQuery: (): QuerySpy => new QuerySpy(),
+            }),
+          ],
+        },
+      ),
+    ).toThrow(DrizzlePaginationError);
+  });
+
+  it('rejects a through parentKey that does not match parentKey', () => {
+    const proxyDb = drizzle(() => Promise.resolve({ rows: [] }));
+    const build = (sortBy?: { property: string; direction: 'ASC' | 'DESC' }[]): unknown =>
+      generatePaginationQuery(
+        toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['roles.name'], sortBy }),
+        {
+          dialect: 'pg',
           buildQuery: (): QuerySpy => new QuerySpy(),
+          fields: { name: users.name },
+          relations: [
+            defineRelation({
+              relationName: 'roles',
+              fields: { name: rolesTable.name },
+              foreignKey: rolesTable.id,
+              parentKey: users.id,
+              through: {
+                table: usersToRolesTable,
+                parentKey: [usersToRolesTable.userId, usersToRolesTable.roleId],
+                childKey: usersToRolesTable.roleId,
+              },
+              aggregates: { count: true },
+              buildQuery: (select) => proxyDb.select(select).from(rolesTable),
+            }),
+          ],
+        },
+      );
+
+    expect(() => build()).toThrow(
+      'Relation "roles": through.parentKey must have the same length as parentKey',
+    );
+    // Aggregate sorts correlate the junction to the parent rows.
+    expect(() => build([{ property: 'roles._count', direction: 'DESC' }])).toThrow(
+      DrizzlePaginationError,
+    );
+  });
+
+  it('fetches belongsTo relations with one IN query over the distinct parent foreign keys', async () => {
+    const mainSpy = new QuerySpy();
+    const authorSpy = new QuerySpy();
+    const mainSelects: Record<string, unknown>[] = [];
+
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([
+        { __pk_author: 7, title: 'A' },
+        { __pk_author: 7, title: 'B' },
+        { __pk_author: 8, title: 'C' },
+        { __pk_author: null, title: 'D' },
+      ]).then(onfulfilled),
+    );
+    vi.spyOn(authorSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ __fk: 7, name: 'Alice' }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['title', 'author.name'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (select): QuerySpy => {
+          mainSelects.push(select);
+          return mainSpy;
         },
-      ],
-    });
+        fields: { title: postsTable.title },
+        relations: [
+          defineRelation({
+            relationName: 'author',
+            kind: 'belongsTo',
+            fields: { name: users.name },
+            foreignKey: postsTable.authorId,
+            ownerKey: users.id,
+            buildQuery: (): QuerySpy => authorSpy,
+          }),
+        ],
+        count: 'none',
+      },
+    );
 
-    const mainRows = [{ __pk_posts: 1, name: 'Alice' }];
-    const relationResults = [[{ __fk: 1, title: 'Hello' }]];
+    const { data } = await result.execute();
 
-    const assembled = result.assemble(mainRows, relationResults);
+    expect(mainSelects[0]).toEqual({ title: postsTable.title, __pk_author: postsTable.authorId });
+    const authorWhere = authorSpy.whereCalls[authorSpy.whereCalls.length - 1];
+    expect(authorWhere && pgDialect.sqlToQuery(authorWhere)).toEqual(
+      expect.objectContaining({ sql: '"users"."id" in ($1, $2)', params: [7, 8] }),
+    );
 
-    expect(assembled).toHaveLength(1);
-    expect(assembled[0]).toEqual({ name: 'Alice', posts: [{ title: 'Hello' }] });
+    const author: { name?: string | null } | null | undefined = data[0]?.author;
+    expect(author).toEqual({ name: 'Alice' });
+    expect(data.map((row) => row.author)).toEqual([
+      { name: 'Alice' },
+      { name: 'Alice' },
+      null,
+      null,
+    ]);
   });
 
-  it('execute() returns { data, pagination } for LIMIT_OFFSET', async () => {
+  it('splits relation scoping into chunks run with a concurrency cap', async () => {
     const mainSpy = new QuerySpy();
-    const relationSpy = new QuerySpy();
-    const countSpy = new QuerySpy();
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve(
+        [1, 2, 3, 4, 5].map((id) => ({ __pk_posts: id, name: `User ${String(id)}` })),
+      ).then(onfulfilled),
+    );
 
-    // Make QuerySpy resolve with specific data.
-    const mainData = [{ __pk_posts: 1, name: 'Alice' }];
-    const relationData = [{ __fk: 1, title: 'Hello' }];
-    const countData = [{ count: 42 }];
+    const postSpies: QuerySpy[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const buildPostsQuery = (): QuerySpy => {
+      const spy = new QuerySpy();
+      vi.spyOn(spy, 'then').mockImplementation(async (onfulfilled) => {
+        running += 1;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => {
+          setTimeout(resolve, 5);
+        });
+        running -= 1;
+        const where = spy.whereCalls[spy.whereCalls.length - 1];
+        const ids = where ? pgDialect.sqlToQuery(where).params : [];
+        return Promise.resolve(ids.map((id) => ({ __fk: id, title: `Post ${String(id)}` }))).then(
+          onfulfilled,
+        );
+      });
+      postSpies.push(spy);
+      return spy;
+    };
 
-    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
-      Promise.resolve(mainData).then(onfulfilled),
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['name', 'posts.title'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        fields: { name: users.name },
+        relations: [
+          defineRelation({
+            relationName: 'posts',
+            fields: { title: postsTable.title },
+            foreignKey: postsTable.authorId,
+            parentKey: users.id,
+            buildQuery: buildPostsQuery,
+          }),
+        ],
+        count: 'none',
+        relationChunkSize: 2,
+        relationConcurrency: 2,
+      },
     );
-    vi.spyOn(relationSpy, 'then').mockImplementation((onfulfilled) =>
-      Promise.resolve(relationData).then(onfulfilled),
+
+    const { data } = await result.execute();
+
+    const scopes = postSpies
+      .map((spy) => spy.whereCalls[spy.whereCalls.length - 1])
+      .filter((where): where is SQL => where !== undefined)
+      .map((where) => pgDialect.sqlToQuery(where).params);
+    expect(scopes).toEqual([[1, 2], [3, 4], [5]]);
+    expect(maxRunning).toBe(2);
+    expect(data.map((row) => row.posts)).toEqual(
+      [1, 2, 3, 4, 5].map((id) => [{ title: `Post ${String(id)}` }]),
     );
-    vi.spyOn(countSpy, 'then').mockImplementation((onfulfilled) =>
-      Promise.resolve(countData).then(onfulfilled),
+  });
+
+  it('rejects a relationChunkSize that is not a positive integer', () => {
+    expect(() =>
+      generatePaginationQuery(toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10 }), {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => new QuerySpy(),
+        fields: { name: users.name },
+        relationChunkSize: 0,
+      }),
+    ).toThrow('relationChunkSize must be a positive integer');
+  });
+
+  it('scopes composite belongsTo keys with a row-value IN', async () => {
+    const mainSpy = new QuerySpy();
+    const authorSpy = new QuerySpy();
+
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([
+        { __pk_author_0: 7, __pk_author_1: 30, title: 'A' },
+        { __pk_author_0: 8, __pk_author_1: 25, title: 'B' },
+      ]).then(onfulfilled),
+    );
+    vi.spyOn(authorSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ __fk_0: 8, __fk_1: 25, name: 'Bob' }]).then(onfulfilled),
     );
 
-    const parsed = toParsed({
-      type: 'LIMIT_OFFSET',
-      page: 2,
-      limit: 10,
-      select: ['name', 'posts.title'],
+    const relation = defineRelation({
+      relationName: 'author',
+      kind: 'belongsTo',
+      fields: { name: users.name },
+      foreignKey: [postsTable.authorId, postsTable.id],
+      ownerKey: [users.id, users.age],
+      buildQuery: (): QuerySpy => authorSpy,
     });
+    expect(relation.mode).toBe('one');
 
-    // buildQuery is called twice: once for main query, once for count query.
-    const spies = [mainSpy, countSpy];
-    let callIdx = 0;
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['title', 'author.name'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        fields: { title: postsTable.title },
+        relations: [relation],
+        count: 'none',
+      },
+    );
 
-    const result = generatePaginationQuery(parsed, {
-      dialect: 'pg',
-      buildQuery: (): QuerySpy => {
-        const spy = spies[callIdx++];
-        if (!spy) throw new Error('Unexpected buildQuery call');
-        return spy;
+    const { data } = await result.execute();
+
+    const authorWhere = authorSpy.whereCalls[authorSpy.whereCalls.length - 1];
+    expect(authorWhere && pgDialect.sqlToQuery(authorWhere)).toEqual(
+      expect.objectContaining({
+        sql: '("users"."id", "users"."age") in (($1, $2), ($3, $4))',
+        params: [7, 30, 8, 25],
+      }),
+    );
+    expect(data).toEqual([
+      { title: 'A', author: null },
+      { title: 'B', author: { name: 'Bob' } },
+    ]);
+  });
+
+  it('ANDs the discriminator of a polymorphic relation into its scope', async () => {
+    const mainSpy = new QuerySpy();
+    const commentsSpy = new QuerySpy();
+    vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([
+        { __pk_comments: 1, title: 'A' },
+        { __pk_comments: 2, title: 'B' },
+      ]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({ type: 'LIMIT_OFFSET', page: 1, limit: 10, select: ['title', 'comments.body'] }),
+      {
+        dialect: 'pg',
+        buildQuery: (): QuerySpy => mainSpy,
+        fields: { title: postsTable.title },
+        relations: [
+          defineRelation({
+            relationName: 'comments',
+            fields: { body: commentsTable.body },
+            foreignKey: commentsTable.commentableId,
+            parentKey: postsTable.id,
+            discriminator: { column: commentsTable.commentableType, value: ['post', 'article'] },
+            buildQuery: (): QuerySpy => commentsSpy,
+          }),
+        ],
+        count: 'none',
       },
-      fields: { name: users.name },
-      relations: [
-        {
-          relationName: 'posts',
-          fields: { title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
-          buildQuery: (): QuerySpy => relationSpy,
-        },
-      ],
-    });
+    );
 
-    const { data, pagination } = await result.execute();
+    await result.execute();
 
-    expect(data).toHaveLength(1);
-    expect(data[0]).toEqual({ name: 'Alice', posts: [{ title: 'Hello' }] });
-    expect(pagination).toEqual(
+    const commentsWhere = commentsSpy.whereCalls[commentsSpy.whereCalls.length - 1];
+    expect(commentsWhere && pgDialect.sqlToQuery(commentsWhere)).toEqual(
       expect.objectContaining({
-        itemsPerPage: 10,
-        totalItems: 42,
-        currentPage: 2,
-        totalPages: 5,
+        sql: '("comments"."commentable_type" in ($1, $2) and "comments"."commentable_id" in ($3, $4))',
+        params: ['post', 'article', 1, 2],
       }),
     );
   });
 
-  it('execute() returns { data, pagination } for CURSOR', async () => {
+  it('keeps strict field mapping for a belongsTo relation with a discriminator', () => {
+    expect(() =>
+      generatePaginationQuery(
+        toParsed({
+          type: 'LIMIT_OFFSET',
+          page: 1,
+          limit: 10,
+          select: ['body', 'post.title', 'post.missing'],
+        }),
+        {
+          dialect: 'pg',
+          buildQuery: (): QuerySpy => new QuerySpy(),
+          fields: { body: commentsTable.body },
+          relations: [
+            {
+              ...defineRelation({
+                relationName: 'post',
+                kind: 'belongsTo',
+                fields: { title: postsTable.title },
+                foreignKey: commentsTable.commentableId,
+                ownerKey: postsTable.id,
+                buildQuery: (): QuerySpy => new QuerySpy(),
+              }),
+              // Parent-side discriminator, like a morphTo target.
+              discriminator: { column: commentsTable.commentableType, value: 'post' },
+            },
+          ],
+        },
+      ),
+    ).toThrow('No Drizzle field mapping found for "missing"');
+  });
+
+  it('dispatches morphTo rows to the target of their type and assembles them under one key', async () => {
     const mainSpy = new QuerySpy();
-    const mainData = [
-      { __pk_posts: 1, id: 43, name: 'Alice' },
-      { __pk_posts: 2, id: 44, name: 'Bob' },
-    ];
+    const postSpy = new QuerySpy();
+    const videoSpy = new QuerySpy();
+    const mainSelects: Record<string, unknown>[] = [];
 
     vi.spyOn(mainSpy, 'then').mockImplementation((onfulfilled) =>
-      Promise.resolve(mainData).then(onfulfilled),
+      Promise.resolve([
+        { __type_commentable: 'post', __pk_commentable: 1, body: 'A' },
+        { __type_commentable: 'video', __pk_commentable: 1, body: 'B' },
+        { __type_commentable: 'post', __pk_commentable: 2, body: 'C' },
+        { __type_commentable: 'photo', __pk_commentable: 3, body: 'D' },
+      ]).then(onfulfilled),
+    );
+    vi.spyOn(postSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ __fk: 1, title: 'Hello' }]).then(onfulfilled),
+    );
+    vi.spyOn(videoSpy, 'then').mockImplementation((onfulfilled) =>
+      Promise.resolve([{ __fk: 1, url: 'hello.mp4' }]).then(onfulfilled),
+    );
+
+    const result = generatePaginationQuery(
+      toParsed({
+        type: 'LIMIT_OFFSET',
+        page: 1,
+        limit: 10,
+        select: ['body', 'commentable.title', 'commentable.url'],
+      }),
+      {
+        dialect: 'pg',
+        buildQuery: (select): QuerySpy => {
+          mainSelects.push(select);
+          return mainSpy;
+        },
+        fields: { body: commentsTable.body },
+        relations: [
+          defineMorphTo({
+            relationName: 'commentable',
+            typeKey: commentsTable.commentableType,
+            foreignKey: commentsTable.commentableId,
+            targets: {
+              post: {
+                fields: { title: postsTable.title },
+                ownerKey: postsTable.id,
+                buildQuery: (): QuerySpy => postSpy,
+              },
+              video: {
+                fields: { url: videosTable.url },
+                ownerKey: videosTable.id,
+                buildQuery: (): QuerySpy => videoSpy,
+              },
+            },
+          }),
+        ],
+        count: 'none',
+      },
+    );
+
+    const { data } = await result.execute();
+
+    expect(mainSelects[0]).toEqual({
+      body: commentsTable.body,
+      __pk_commentable: commentsTable.commentableId,
+      __type_commentable: commentsTable.commentableType,
+    });
+    const postWhere = postSpy.whereCalls[postSpy.whereCalls.length - 1];
+    expect(postWhere && pgDialect.sqlToQuery(postWhere)).toEqual(
+      expect.objectContaining({ sql: '"posts"."id" in ($1, $2)', params: [1, 2] }),
     );
+    const videoWhere = videoSpy.whereCalls[videoSpy.whereCalls.length - 1];
+    expect(videoWhere && pgDialect.sqlToQuery(videoWhere)).toEqual(
+      expect.objectContaining({ sql: '"videos"."id" in ($1)', params: [1] }),
+    );
+
+    const commentable: { title?: string | null } | { url?: string | null } | null | undefined =
+      data[0]?.commentable;
+    expect(commentable).toEqual({ title: 'Hello' });
+    expect(data).toEqual([
+      { body: 'A', commentable: { title: 'Hello' } },
+      { body: 'B', commentable: { url: 'hello.mp4' } },
+      { body: 'C', commentable: null },
+      { body: 'D', commentable: null },
+    ]);
+  });
+
+  it('injects cursorProperty into select shape when not explicitly selected', () => {
+    const buildMainQuery = vi.fn((): QuerySpy => new QuerySpy());
 
     const parsed = toParsed({
       type: 'CURSOR',
       limit: 10,
-      cursor: 42,
       cursorProperty: 'id',
-      select: ['id', 'name', 'posts.title'],
+      select: ['name'],
       sortBy: [{ property: 'id', direction: 'ASC' }],
     });
 
     const result = generatePaginationQuery(parsed, {
       dialect: 'pg',
-      buildQuery: (): QuerySpy => mainSpy,
+      buildQuery: buildMainQuery,
       fields: { id: users.id, name: users.name },
-      relations: [
-        {
-          relationName: 'posts',
-          fields: { title: postsTable.title },
-          foreignKey: postsTable.authorId,
-          parentKey: users.id,
-          buildQuery: (): QuerySpy => new QuerySpy(),
-        },
-      ],
     });
 
-    const { data, pagination } = await result.execute();
-
-    expect(data).toHaveLength(2);
-    expect(pagination).toEqual(
-      expect.objectContaining({
-        itemsPerPage: 10,
-        cursor: 44,
-      }),
-    );
+    expect(buildMainQuery).toHaveBeenCalledWith(expect.objectContaining({ id: users.id }));
+    expect(result.clauses.cursorProperty).toBe('id');
   });
 
-  it('injects cursorProperty into select shape when not explicitly selected', () => {
+  it('injects every keyset column into the select shape', () => {
     const buildMainQuery = vi.fn((): QuerySpy => new QuerySpy());
 
     const parsed = toParsed({
@@ -1168,17 +4077,31 @@ describe('generatePaginationQuery', () => {
       limit: 10,
       cursorProperty: 'id',
       select: ['name'],
-      sortBy: [{ property: 'id', direction: 'ASC' }],
+      sortBy: [
+        { property: 'age', direction: 'DESC' },
+        { property: 'posts.title', direction: 'ASC' },
+      ],
     });
 
     const result = generatePaginationQuery(parsed, {
       dialect: 'pg',
       buildQuery: buildMainQuery,
-      fields: { id: users.id, name: users.name },
+      fields: { id: users.id, name: users.name, age: users.age },
+      relations: [
+        {
+          relationName: 'posts',
+          fields: { title: postsTable.title },
+          foreignKey: postsTable.authorId,
+          parentKey: users.id,
+          buildQuery: (): QuerySpy => new QuerySpy(),
+        },
+      ],
     });
 
-    expect(buildMainQuery).toHaveBeenCalledWith(expect.objectContaining({ id: users.id }));
-    expect(result.clauses.cursorProperty).toBe('id');
+    expect(result.clauses.cursorProperties).toEqual(['age', 'id']);
+    expect(buildMainQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ name: users.name, age: users.age, id: users.id }),
+    );
   });
 
   it('does not duplicate cursorProperty when already selected', () => {
@@ -1671,6 +4594,78 @@ describe('generateSelectQuery', () => {
 });
 
 describe('assembleDrizzleRelations', () => {
+  it('assembles nested relations from depth-first results', () => {
+    const mainRows = [
+      { __pk_posts: 1, name: 'Alice' },
+      { __pk_posts: 2, name: 'Bob' },
+    ];
+
+    const relationQueries = [
+      {
+        relationName: 'posts',
+        parentKey: users.id,
+        foreignKeyAlias: '__fk',
+        mode: 'many' as const,
+        query: new QuerySpy(),
+        relations: [
+          {
+            relationName: 'comments',
+            parentKey: postsTable.id,
+            foreignKeyAlias: '__fk',
+            mode: 'many' as const,
+            query: new QuerySpy(),
+          },
+        ],
+      },
+    ];
+
+    const relationResults = [
+      [
+        { __fk: 1, __pk_comments: 10, title: 'Post A1' },
+        { __fk: 2, __pk_comments: 20, title: 'Post B1' },
+      ],
+      [
+        { __fk: 10, body: 'Nice' },
+        { __fk: 10, body: 'Agreed' },
+      ],
+    ];
+
+    const assembled = assembleDrizzleRelations(mainRows, relationQueries, relationResults);
+
+    expect(assembled).toEqual([
+      {
+        name: 'Alice',
+        posts: [{ title: 'Post A1', comments: [{ body: 'Nice' }, { body: 'Agreed' }] }],
+      },
+      { name: 'Bob', posts: [{ title: 'Post B1', comments: [] }] },
+    ]);
+  });
+
+  it('counts nested queries when checking the number of result arrays', () => {
+    const relationQueries = [
+      {
+        relationName: 'posts',
+        parentKey: users.id,
+        foreignKeyAlias: '__fk',
+        mode: 'many' as const,
+        query: new QuerySpy(),
+        relations: [
+          {
+            relationName: 'comments',
+            parentKey: postsTable.id,
+            foreignKeyAlias: '__fk',
+            mode: 'many' as const,
+            query: new QuerySpy(),
+          },
+        ],
+      },
+    ];
+
+    expect(() => assembleDrizzleRelations([], relationQueries, [[]])).toThrow(
+      'Mismatch: 2 relation queries but 1 result arrays',
+    );
+  });
+
   it('groups child rows under their parent by foreign key', () => {
     const mainRows = [
       { __pk_posts: 1, name: 'Alice' },
@@ -2161,7 +5156,38 @@ describe('buildCursorResponseMeta', () => {
     const meta = buildCursorResponseMeta(parsed, rows, 'id');
 
     expect(meta.itemsPerPage).toBe(10);
-    expect(meta.cursor).toBe(8);
+    expect(decodeCursor(meta.cursor)).toEqual({ id: 8 });
+  });
+
+  it('emits next and previous cursors from the last and first rows', () => {
+    const meta = buildCursorResponseMeta(
+      toCursorParsed({
+        type: 'CURSOR',
+        limit: 10,
+        cursor: cursorOf({ id: 5 }),
+        cursorProperty: 'id',
+      }),
+      [{ id: 6 }, { id: 7 }, { id: 8 }],
+      'id',
+    );
+
+    expect(meta.nextCursor).toBe(meta.cursor);
+    expect(cursorCodec.decode(String(meta.nextCursor))).toEqual({ values: { id: 8 } });
+    expect(cursorCodec.decode(String(meta.previousCursor))).toEqual({
+      values: { id: 6 },
+      direction: 'before',
+    });
+  });
+
+  it('omits the previous cursor on the first page', () => {
+    const meta = buildCursorResponseMeta(
+      toCursorParsed({ type: 'CURSOR', limit: 10, cursorProperty: 'id' }),
+      [{ id: 1 }, { id: 2 }],
+      'id',
+    );
+
+    expect(meta.previousCursor).toBeNull();
+    expect(decodeCursor(meta.nextCursor)).toEqual({ id: 2 });
   });
 
   it('uses incoming cursor when rows are empty', () => {
@@ -2175,9 +5201,11 @@ describe('buildCursorResponseMeta', () => {
     const meta = buildCursorResponseMeta(parsed, [], 'id');
 
     expect(meta.cursor).toBe(42);
+    expect(meta.nextCursor).toBeNull();
+    expect(meta.previousCursor).toBeNull();
   });
 
-  it('falls back to 0 when no cursor and no rows', () => {
+  it('returns a null cursor when no cursor and no rows', () => {
     const parsed = toCursorParsed({
       type: 'CURSOR',
       limit: 10,
@@ -2186,7 +5214,7 @@ describe('buildCursorResponseMeta', () => {
 
     const meta = buildCursorResponseMeta(parsed, [], 'id');
 
-    expect(meta.cursor).toBe(0);
+    expect(meta.cursor).toBeNull();
   });
 
   it('handles string cursor values', () => {
@@ -2200,7 +5228,41 @@ describe('buildCursorResponseMeta', () => {
 
     const meta = buildCursorResponseMeta(parsed, rows, 'name');
 
-    expect(meta.cursor).toBe('Bob');
+    expect(decodeCursor(meta.cursor)).toEqual({ name: 'Bob' });
+  });
+
+  it('emits a composite cursor holding every keyset column of the last row', () => {
+    const meta = buildCursorResponseMeta(
+      toCursorParsed({
+        type: 'CURSOR',
+        limit: 10,
+        cursorProperty: 'id',
+        sortBy: [
+          { property: 'createdAt', direction: 'DESC' },
+          { property: 'posts.title', direction: 'ASC' },
+        ],
+      }),
+      [
+        { id: 1, createdAt: new Date('2024-01-02T00:00:00.000Z') },
+        { id: 2, createdAt: new Date('2024-01-01T00:00:00.000Z') },
+      ],
+    );
+
+    expect(decodeCursor(meta.cursor)).toEqual({ createdAt: '2024-01-01T00:00:00.000Z', id: 2 });
+  });
+
+  it('encodes only the cursor property when it is the only sort key', () => {
+    const meta = buildCursorResponseMeta(
+      toCursorParsed({
+        type: 'CURSOR',
+        limit: 10,
+        cursorProperty: 'id',
+        sortBy: [{ property: 'id', direction: 'DESC' }],
+      }),
+      [{ id: 9 }, { id: 8 }],
+    );
+
+    expect(decodeCursor(meta.cursor)).toEqual({ id: 8 });
   });
 
   it('includes sortBy and filter when present', () => {
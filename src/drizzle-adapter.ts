@@ -1,13 +1,20 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
 import {
+  Column,
   and as drizzleAnd,
   arrayContains as drizzleArrayContains,
   asc as drizzleAsc,
   desc as drizzleDesc,
   eq as drizzleEq,
+  getTableColumns,
+  getTableName,
+  getTableUniqueName,
   gt as drizzleGt,
   gte as drizzleGte,
   ilike as drizzleIlike,
   inArray as drizzleInArray,
+  is as drizzleIs,
+  isSQLWrapper,
   isNull as drizzleIsNull,
   like as drizzleLike,
   lt as drizzleLt,
@@ -15,8 +22,10 @@ import {
   not as drizzleNot,
   or as drizzleOr,
   sql,
+  SQL,
 } from 'drizzle-orm';
-import type { Column, GetColumnData, SQL } from 'drizzle-orm';
+import type { GetColumnData, SQLWrapper, Table } from 'drizzle-orm';
+import type { ZodType } from 'zod';
 import type {
   AllowedPath,
   Condition,
@@ -29,7 +38,6 @@ import type {
   SelectResponse,
   SelectResponseType,
   SortDirection,
-  WhereNode,
 } from 'zod-paginate';
 
 // ─── Relation types ─────────────────────────────────────────────────────────
@@ -40,6 +48,89 @@ import type {
  */
 export type RelationMode = 'many' | 'one';
 
+/**
+ * Which side holds the foreign key:
+ * - `'hasMany'` (default): the child rows point at the parent.
+ * - `'belongsTo'`: the parent row points at the related row (e.g. a post's
+ *   `author`). Always assembled as a single object or `null`.
+ */
+export type RelationKind = 'hasMany' | 'belongsTo';
+
+/**
+ * Where a relation's per-parent `limit` is enforced:
+ * - `'window'` (default): in SQL, keeping the first N rows of each parent by
+ *   `ROW_NUMBER() OVER (PARTITION BY …)`.
+ * - `'memory'`: during assembly, after every matching row has been fetched.
+ *   Use it for databases without window functions (MySQL < 8, SQLite < 3.25).
+ */
+export type RelationLimitStrategy = 'window' | 'memory';
+
+/**
+ * How filters on a relation's fields apply:
+ * - `'children'` (default): they only narrow the related rows attached to
+ *   each parent.
+ * - `'parent'`: they filter the parent rows instead, as
+ *   `EXISTS (select 1 from child where fk = pk and …)` in the main `WHERE`
+ *   (`NOT EXISTS` for negated conditions), so counts reflect them too.
+ */
+export type RelationFilterMode = 'children' | 'parent';
+
+/**
+ * How the related rows are loaded:
+ * - `'query'` (default): with a separate query scoped by the parent keys,
+ *   run once the main query has returned.
+ * - `'json'`: embedded in the main select as a correlated JSON aggregate
+ *   (`json_agg` on PG, `JSON_ARRAYAGG` on MySQL, `json_group_array` on
+ *   SQLite), so the whole page loads in one round-trip. Nested relations of
+ *   a `'json'` relation are embedded in its JSON as well.
+ */
+export type RelationLoadStrategy = 'query' | 'json';
+
+/** Aggregate functions a relation can expose over its fields. */
+export type RelationAggregateFunction = 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * Aggregates a relation exposes to the client as selectable paths, computed
+ * with one grouped query scoped by the parent keys:
+ * - `count: true` → `<relation>._count` (`0` for parents without rows)
+ * - `sum: ['views']` → `<relation>.views._sum` (`null` for parents without
+ *   rows), and likewise for `avg`, `min` and `max`.
+ *
+ * @example
+ * ```ts
+ * aggregates: { count: true, sum: ['views'], max: ['createdAt'] }
+ * ```
+ */
+export interface DrizzleRelationAggregates<TFieldName extends string = string> {
+  count?: boolean;
+  sum?: readonly TFieldName[];
+  avg?: readonly TFieldName[];
+  min?: readonly TFieldName[];
+  max?: readonly TFieldName[];
+}
+
+/** A value of a polymorphic relation's type column (e.g. `'post'`). */
+export type RelationDiscriminatorValue = string | number;
+
+/**
+ * Type column of a polymorphic relation and the value(s) its rows hold, e.g.
+ * the comments of posts in a `comments(commentable_type, commentable_id)`
+ * table shared with videos.
+ *
+ * The column lives on the table holding the foreign key: the related table
+ * for `hasMany` relations (where it is ANDed into the relation scope), the
+ * parent table for the targets of `defineMorphTo`.
+ *
+ * @example
+ * ```ts
+ * discriminator: { column: comments.commentableType, value: 'post' }
+ * ```
+ */
+export interface DrizzleRelationDiscriminator<TColumn> {
+  column: TColumn;
+  value: RelationDiscriminatorValue | readonly RelationDiscriminatorValue[];
+}
+
 /**
  * Describes a one-to-many (or one-to-one) relation that must be fetched
  * as a separate query and assembled back into the parent rows.
@@ -63,6 +154,20 @@ export type RelationMode = 'many' | 'one';
  *   parentKey: [ordersTable.orderId, ordersTable.productId],
  *   buildQuery: (select) => db.select(select).from(orderItemsTable),
  * };
+ *
+ * // Many-to-many through a junction table:
+ * const rolesRelation: DrizzleRelation<typeof DrizzleSqlColumn> = {
+ *   relationName: 'roles',
+ *   fields: { id: rolesTable.id, name: rolesTable.name },
+ *   foreignKey: rolesTable.id,
+ *   parentKey: usersTable.id,
+ *   through: {
+ *     table: usersToRolesTable,
+ *     parentKey: usersToRolesTable.userId,
+ *     childKey: usersToRolesTable.roleId,
+ *   },
+ *   buildQuery: (select) => db.select(select).from(rolesTable),
+ * };
  * ```
  */
 export interface DrizzleRelation<
@@ -73,11 +178,20 @@ export interface DrizzleRelation<
 > {
   /** Name used as the key in the assembled result (e.g. `"posts"`). */
   relationName: TName;
+  /**
+   * Relation kind. With `'belongsTo'`, `parentKey` is the foreign key on the
+   * parent row and `foreignKey` the key it references on the related table;
+   * `defineRelation` takes care of this mapping.
+   */
+  kind?: RelationKind;
   /** Column map for the child table — keys are the sub-field names. */
   fields: TRelFields;
   /**
    * The column(s) on the **child** table that reference the parent.
    * Use an array for composite foreign keys.
+   *
+   * With `through`, the column(s) on the child table referenced by the
+   * junction's `childKey` instead (usually the child primary key).
    */
   foreignKey: TColumn | TColumn[];
   /**
@@ -85,12 +199,32 @@ export interface DrizzleRelation<
    * Must have the same length as `foreignKey` when using arrays.
    */
   parentKey: TColumn | TColumn[];
+  /**
+   * Junction table for many-to-many relations. The relation query is
+   * inner-joined to it and scoped by its parent-side column(s).
+   */
+  through?: DrizzleRelationThrough<TColumn>;
+  /**
+   * Type column and value(s) of a polymorphic relation, ANDed into its scope
+   * so only the related rows of this parent type are fetched.
+   */
+  discriminator?: DrizzleRelationDiscriminator<TColumn>;
   /**
    * Controls how the assembled result is shaped:
    * - `'many'` (default): attaches an **array** of child rows.
    * - `'one'`: attaches a **single object or `null`** (first match).
    */
   mode?: TMode;
+  /**
+   * Static condition ANDed with the client filters and the parent scope of
+   * the relation query, its aggregates and its subqueries.
+   *
+   * @example
+   * ```ts
+   * where: isNull(posts.deletedAt)
+   * ```
+   */
+  where?: SQL;
   /**
    * Static ordering applied to the relation query.
    *
@@ -105,10 +239,13 @@ export interface DrizzleRelation<
    */
   orderBy?: SQL[];
   /**
-   * Maximum number of child rows **per parent** to keep after assembly.
+   * Maximum number of child rows **per parent**.
    *
-   * All matching children are still fetched from the database; the
-   * limit is applied in-memory during `assembleDrizzleRelations`.
+   * Enforced in SQL with `ROW_NUMBER()` ranked by the relation ordering
+   * (see `limitStrategy`), so only the first N children of each parent are
+   * fetched. Falls back to trimming in `assembleDrizzleRelations` when the
+   * child table has no single-column primary key or the query cannot be
+   * embedded as a subquery.
    * Combined with `orderBy`, this lets you express "last N items".
    *
    * Ignored when `mode` is `'one'` (already capped at 1).
@@ -120,6 +257,30 @@ export interface DrizzleRelation<
    * ```
    */
   limit?: number;
+  /** Where `limit` is enforced. Defaults to `'window'`. */
+  limitStrategy?: RelationLimitStrategy;
+  /**
+   * Whether filters on this relation's fields narrow its rows (`'children'`,
+   * default) or filter the parent rows with `EXISTS` (`'parent'`).
+   */
+  filterMode?: RelationFilterMode;
+  /**
+   * Whether the related rows are fetched with their own query (`'query'`,
+   * default) or embedded as JSON in the parent select (`'json'`).
+   */
+  strategy?: RelationLoadStrategy;
+  /**
+   * Aggregates the client can select (e.g. `posts._count`,
+   * `posts.views._sum`). They are attached to the parent row under the
+   * select alias of their path (`posts__count`, `posts_views__sum`).
+   */
+  aggregates?: DrizzleRelationAggregates<Extract<keyof TRelFields, string>>;
+  /**
+   * Relations of this relation (e.g. `comments` of `posts`), fetched with a
+   * query scoped to this relation's rows and addressed with nested paths
+   * such as `posts.comments.body`.
+   */
+  relations?: readonly AnyDrizzleRelation[];
   /**
    * Factory that builds the base query for this relation.
    * Receives the computed select shape (column subset) and must return
@@ -132,6 +293,25 @@ export interface DrizzleRelation<
   buildQuery(selectShape: DrizzleSelectShape<TColumn>): DrizzleAutoQuery;
 }
 
+/**
+ * Junction (pivot) table linking a parent to its children in a many-to-many
+ * relation, e.g. `users_to_roles` between `users` and `roles`.
+ */
+export interface DrizzleRelationThrough<TColumn> {
+  /** The junction table, joined to the relation query. */
+  table: Table;
+  /**
+   * The junction column(s) referencing the parent's `parentKey`.
+   * Must have the same length as `parentKey` when using arrays.
+   */
+  parentKey: TColumn | TColumn[];
+  /**
+   * The junction column(s) referencing the child's `foreignKey`.
+   * Must have the same length as `foreignKey` when using arrays.
+   */
+  childKey: TColumn | TColumn[];
+}
+
 // ─── Relation type inference utilities ────────────────────────────────────
 
 /**
@@ -145,11 +325,74 @@ export type InferRelationName<TRel> = TRel extends { relationName: infer TName e
  * Extracts the `fields` record type from a `DrizzleRelation` and applies
  * `InferFieldsData` to produce the child-row data type.
  */
-export type InferRelationRow<TRel> = TRel extends {
+export type InferRelationRow<TRel> = (TRel extends {
   fields: infer TRelFields extends Record<string, unknown>;
 }
-  ? InferFieldsData<TRelFields>
-  : Record<string, unknown>;
+  ? InferFieldsDataUnion<TRelFields>
+  : Record<string, unknown>) &
+  InferNestedRelationsData<TRel>;
+
+/**
+ * `InferFieldsData` distributed over a union of field maps, so the row of a
+ * `defineMorphTo` relation is the union of its target rows.
+ */
+type InferFieldsDataUnion<TFields extends Record<string, unknown>> = TFields extends unknown
+  ? InferFieldsData<TFields>
+  : never;
+
+/**
+ * Applies `InferRelationsData` to the nested `relations` tuple of a
+ * `DrizzleRelation`, so nested rows are typed at every level.
+ */
+export type InferNestedRelationsData<TRel> = TRel extends { relations?: infer TNested }
+  ? Exclude<TNested, undefined> extends infer TNestedRelations extends readonly AnyDrizzleRelation[]
+    ? InferRelationsData<TNestedRelations>
+    : unknown
+  : unknown;
+
+/** Field names a relation declares for the aggregate function `TFn`. */
+type AggregateFieldName<TAggregates, TFn extends RelationAggregateFunction> =
+  TAggregates extends Record<TFn, readonly (infer TField extends string)[]> ? TField : never;
+
+/** Data type of a relation field, as decoded by Drizzle. */
+type RelationFieldData<TFields, TField> = TField extends keyof TFields
+  ? TFields[TField] extends Column
+    ? GetColumnData<TFields[TField]>
+    : unknown
+  : unknown;
+
+/** Parent-row keys of the `TFn` aggregates of a relation, with their value type. */
+type RelationAggregateValues<
+  TName extends string,
+  TFields,
+  TAggregates,
+  TFn extends RelationAggregateFunction,
+> = {
+  [TField in AggregateFieldName<TAggregates, TFn> as `${TName}_${TField}__${TFn}`]:
+    (TFn extends 'min' | 'max' ? RelationFieldData<TFields, TField> : number) | null;
+};
+
+/**
+ * Builds the parent-row keys of the aggregates declared by a relation, named
+ * by the default select alias (`posts._count` → `posts__count`,
+ * `posts.views._sum` → `posts_views__sum`). All keys are optional since
+ * they are only present when selected.
+ */
+export type InferRelationAggregatesData<TRel> = TRel extends {
+  relationName: infer TName extends string;
+  fields: infer TFields;
+  aggregates?: infer TAggregates;
+}
+  ? Partial<
+      (Exclude<TAggregates, undefined> extends { count: true }
+        ? Record<`${TName}__count`, number>
+        : unknown) &
+        RelationAggregateValues<TName, TFields, Exclude<TAggregates, undefined>, 'sum'> &
+        RelationAggregateValues<TName, TFields, Exclude<TAggregates, undefined>, 'avg'> &
+        RelationAggregateValues<TName, TFields, Exclude<TAggregates, undefined>, 'min'> &
+        RelationAggregateValues<TName, TFields, Exclude<TAggregates, undefined>, 'max'>
+    >
+  : unknown;
 
 /**
  * Structural constraint for `DrizzleRelation` that is as strongly typed as
@@ -164,11 +407,16 @@ export type InferRelationRow<TRel> = TRel extends {
 export interface AnyDrizzleRelation {
   /** Name used as the key in the assembled result (e.g. `"posts"`). */
   relationName: string;
+  /**
+   * Relation kind. `'belongsTo'` relations store the parent-row foreign key
+   * in `parentKey` and the referenced key in `foreignKey`.
+   */
+  kind?: RelationKind;
   /** Column map for the child table — keys are the sub-field names. */
   fields: Record<string, DrizzleSqlColumn>;
   /**
-   * The column(s) on the **child** table that reference the parent.
-   * Use an array for composite foreign keys.
+   * The column(s) on the **child** table that reference the parent, or the
+   * child column(s) referenced by the junction when using `through`.
    */
   foreignKey: DrizzleSqlColumn | DrizzleSqlColumn[];
   /**
@@ -176,22 +424,56 @@ export interface AnyDrizzleRelation {
    * Must have the same length as `foreignKey` when using arrays.
    */
   parentKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+  /** Junction table for many-to-many relations. */
+  through?: DrizzleRelationThrough<DrizzleSqlColumn>;
+  /**
+   * Type column and value(s) of a polymorphic relation. On `belongsTo`
+   * relations (the targets of `defineMorphTo`) the column is on the parent.
+   */
+  discriminator?: DrizzleRelationDiscriminator<DrizzleSqlColumn>;
+  /**
+   * Targets of a `defineMorphTo` relation, each a `belongsTo` relation
+   * with a parent-side discriminator. They replace it wherever relations
+   * are read.
+   */
+  morphTargets?: readonly AnyDrizzleRelation[];
+  /**
+   * Set by `defineMorphTo` on each of its targets: the paths of a morphTo
+   * relation only map to the targets declaring them, so unmapped paths are
+   * ignored there whatever `strictFieldMapping` says.
+   */
+  morphTarget?: boolean;
   /**
    * Controls how the assembled result is shaped:
    * - `'many'` (default): attaches an **array** of child rows.
    * - `'one'`: attaches a **single object or `null`** (first match).
    */
   mode?: RelationMode;
+  /**
+   * Static condition ANDed with the client filters and the parent scope of
+   * the relation query.
+   */
+  where?: SQL;
   /**
    * Static ordering applied to the relation query.
    * Acts as a tiebreaker when the client also requests sorting.
    */
   orderBy?: SQL[];
   /**
-   * Maximum number of child rows **per parent** to keep after assembly.
-   * Ignored when `mode` is `'one'`.
+   * Maximum number of child rows **per parent**, enforced in SQL when
+   * possible. Ignored when `mode` is `'one'`.
    */
   limit?: number;
+  /** Where `limit` is enforced. Defaults to `'window'`. */
+  limitStrategy?: RelationLimitStrategy;
+  /** Whether relation filters narrow its rows or filter the parent rows. */
+  filterMode?: RelationFilterMode;
+  /** Whether the related rows are fetched with their own query or as JSON. */
+  strategy?: RelationLoadStrategy;
+  /** Aggregates the client can select (e.g. `posts._count`). */
+  aggregates?: DrizzleRelationAggregates;
+  /** Nested relations, addressed with paths such as `posts.comments.body`. */
+  relations?: readonly AnyDrizzleRelation[];
   /**
    * Factory that builds the base query for this relation.
    * Receives the computed select shape and must return a Drizzle auto-query.
@@ -221,52 +503,161 @@ export interface AnyDrizzleRelation {
  *     buildQuery: (select) => db.select(select).from(posts),
  *   }),
  * ]
+ *
+ * // Many-to-one: the post row holds the foreign key.
+ * relations: [
+ *   defineRelation({
+ *     relationName: 'author',
+ *     kind: 'belongsTo',
+ *     fields: { id: users.id, name: users.name },
+ *     foreignKey: posts.authorId,
+ *     ownerKey: users.id,
+ *     buildQuery: (select) => db.select(select).from(users),
+ *   }),
+ * ]
  * ```
  */
 export function defineRelation<
   TFieldColumn extends DrizzleSqlColumn,
   const TName extends string,
   TRelFields extends Record<string, TFieldColumn>,
->(relation: {
+  const TNested extends readonly AnyDrizzleRelation[] = readonly [],
+  const TAggregates extends DrizzleRelationAggregates<Extract<keyof TRelFields, string>> =
+    DrizzleRelationAggregates<never>,
+>(
+  relation:
+    | {
+        relationName: TName;
+        kind?: 'hasMany';
+        fields: TRelFields & Record<string, TFieldColumn>;
+        foreignKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+        parentKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+        through?: DrizzleRelationThrough<DrizzleSqlColumn>;
+        discriminator?: DrizzleRelationDiscriminator<DrizzleSqlColumn>;
+        mode: 'one';
+        where?: SQL;
+        orderBy?: SQL[];
+        limit?: number;
+        limitStrategy?: RelationLimitStrategy;
+        filterMode?: RelationFilterMode;
+        strategy?: RelationLoadStrategy;
+        relations?: TNested;
+        aggregates?: TAggregates;
+        buildQuery: (selectShape: DrizzleSelectShape<NoInfer<TFieldColumn>>) => DrizzleAutoQuery;
+      }
+    | {
+        relationName: TName;
+        kind: 'belongsTo';
+        fields: TRelFields & Record<string, TFieldColumn>;
+        /** The column(s) on the **parent** row that reference the related row. */
+        foreignKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+        /** The column(s) on the **related** table referenced by `foreignKey`. */
+        ownerKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+        where?: SQL;
+        orderBy?: SQL[];
+        filterMode?: RelationFilterMode;
+        strategy?: RelationLoadStrategy;
+        relations?: TNested;
+        aggregates?: TAggregates;
+        buildQuery: (selectShape: DrizzleSelectShape<NoInfer<TFieldColumn>>) => DrizzleAutoQuery;
+      },
+): AnyDrizzleRelation & {
   relationName: TName;
-  fields: TRelFields & Record<string, TFieldColumn>;
-  foreignKey: DrizzleSqlColumn | DrizzleSqlColumn[];
-  parentKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+  fields: TRelFields;
   mode: 'one';
-  orderBy?: SQL[];
-  limit?: number;
-  buildQuery: (selectShape: DrizzleSelectShape<NoInfer<TFieldColumn>>) => DrizzleAutoQuery;
-}): AnyDrizzleRelation & { relationName: TName; fields: TRelFields; mode: 'one' };
+  relations?: TNested;
+  aggregates?: TAggregates;
+};
 
 export function defineRelation<
   TFieldColumn extends DrizzleSqlColumn,
   const TName extends string,
   TRelFields extends Record<string, TFieldColumn>,
+  const TNested extends readonly AnyDrizzleRelation[] = readonly [],
+  const TAggregates extends DrizzleRelationAggregates<Extract<keyof TRelFields, string>> =
+    DrizzleRelationAggregates<never>,
 >(relation: {
   relationName: TName;
+  kind?: 'hasMany';
   fields: TRelFields & Record<string, TFieldColumn>;
   foreignKey: DrizzleSqlColumn | DrizzleSqlColumn[];
   parentKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+  through?: DrizzleRelationThrough<DrizzleSqlColumn>;
+  discriminator?: DrizzleRelationDiscriminator<DrizzleSqlColumn>;
   mode?: 'many';
+  where?: SQL;
   orderBy?: SQL[];
   limit?: number;
+  limitStrategy?: RelationLimitStrategy;
+  filterMode?: RelationFilterMode;
+  strategy?: RelationLoadStrategy;
+  relations?: TNested;
+  aggregates?: TAggregates;
   buildQuery: (selectShape: DrizzleSelectShape<NoInfer<TFieldColumn>>) => DrizzleAutoQuery;
-}): AnyDrizzleRelation & { relationName: TName; fields: TRelFields; mode: 'many' };
+}): AnyDrizzleRelation & {
+  relationName: TName;
+  fields: TRelFields;
+  mode: 'many';
+  relations?: TNested;
+  aggregates?: TAggregates;
+};
 
 export function defineRelation<
   TFieldColumn extends DrizzleSqlColumn,
   const TName extends string,
   TRelFields extends Record<string, TFieldColumn>,
->(relation: {
+  const TNested extends readonly AnyDrizzleRelation[] = readonly [],
+  const TAggregates extends DrizzleRelationAggregates<Extract<keyof TRelFields, string>> =
+    DrizzleRelationAggregates<never>,
+>(
+  relation:
+    | {
+        relationName: TName;
+        kind?: 'hasMany';
+        fields: TRelFields & Record<string, TFieldColumn>;
+        foreignKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+        parentKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+        through?: DrizzleRelationThrough<DrizzleSqlColumn>;
+        discriminator?: DrizzleRelationDiscriminator<DrizzleSqlColumn>;
+        mode?: RelationMode;
+        where?: SQL;
+        orderBy?: SQL[];
+        limit?: number;
+        limitStrategy?: RelationLimitStrategy;
+        filterMode?: RelationFilterMode;
+        strategy?: RelationLoadStrategy;
+        relations?: TNested;
+        aggregates?: TAggregates;
+        buildQuery: (selectShape: DrizzleSelectShape<NoInfer<TFieldColumn>>) => DrizzleAutoQuery;
+      }
+    | {
+        relationName: TName;
+        kind: 'belongsTo';
+        fields: TRelFields & Record<string, TFieldColumn>;
+        foreignKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+        ownerKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+        where?: SQL;
+        orderBy?: SQL[];
+        filterMode?: RelationFilterMode;
+        strategy?: RelationLoadStrategy;
+        relations?: TNested;
+        aggregates?: TAggregates;
+        buildQuery: (selectShape: DrizzleSelectShape<NoInfer<TFieldColumn>>) => DrizzleAutoQuery;
+      },
+): AnyDrizzleRelation & {
   relationName: TName;
-  fields: TRelFields & Record<string, TFieldColumn>;
-  foreignKey: DrizzleSqlColumn | DrizzleSqlColumn[];
-  parentKey: DrizzleSqlColumn | DrizzleSqlColumn[];
-  mode?: RelationMode;
-  orderBy?: SQL[];
-  limit?: number;
-  buildQuery: (selectShape: DrizzleSelectShape<NoInfer<TFieldColumn>>) => DrizzleAutoQuery;
-}): AnyDrizzleRelation & { relationName: TName; fields: TRelFields; mode: RelationMode } {
+  fields: TRelFields;
+  mode: RelationMode;
+  relations?: TNested;
+  aggregates?: TAggregates;
+} {
+  if (relation.kind === 'belongsTo') {
+    // The parent row holds the foreign key: scope the related table by the
+    // referenced key and match it against the parent-row foreign key.
+    const { foreignKey, ownerKey, ...rest } = relation;
+    return { ...rest, mode: 'one', parentKey: foreignKey, foreignKey: ownerKey };
+  }
+
   // The input is structurally compatible — AnyDrizzleRelation.buildQuery uses
   // method syntax, so TypeScript's parameter bivariance allows assigning a
   // concrete `DrizzleSelectShape<TFieldColumn>` callback to the wider
@@ -275,10 +666,116 @@ export function defineRelation<
     relationName: TName;
     fields: TRelFields;
     mode: RelationMode;
+    relations?: TNested;
+    aggregates?: TAggregates;
   } = { ...relation, mode: relation.mode ?? 'many' };
   return result;
 }
 
+/**
+ * A target table of a `defineMorphTo` relation: the related row is read
+ * from it for the parent rows whose type column holds its key.
+ */
+export interface DrizzleMorphToTarget<TRelFields extends Record<string, DrizzleSqlColumn>> {
+  /** Column map of the target table — keys are the sub-field names. */
+  fields: TRelFields;
+  /** The column(s) on the target table referenced by the parent `foreignKey`. */
+  ownerKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+  where?: SQL;
+  orderBy?: SQL[];
+  buildQuery: (selectShape: DrizzleSelectShape<TRelFields[keyof TRelFields]>) => DrizzleAutoQuery;
+}
+
+/**
+ * Defines a polymorphic `belongsTo` relation: each parent row references a
+ * row of the target table named by its type column, e.g. a comment's
+ * `commentable` is a post or a video depending on `commentable_type`.
+ *
+ * Each target is fetched with its own query, scoped to the parent rows of
+ * its type, and the results are assembled under the same key (`null` when
+ * the type matches no target). Select, filter and sort paths apply to the
+ * targets declaring them and are ignored by the others.
+ *
+ * @example
+ * ```ts
+ * relations: [
+ *   defineMorphTo({
+ *     relationName: 'commentable',
+ *     typeKey: comments.commentableType,
+ *     foreignKey: comments.commentableId,
+ *     targets: {
+ *       post: {
+ *         fields: { id: posts.id, title: posts.title },
+ *         ownerKey: posts.id,
+ *         buildQuery: (select) => db.select(select).from(posts),
+ *       },
+ *       video: {
+ *         fields: { id: videos.id, url: videos.url },
+ *         ownerKey: videos.id,
+ *         buildQuery: (select) => db.select(select).from(videos),
+ *       },
+ *     },
+ *   }),
+ * ]
+ * ```
+ */
+export function defineMorphTo<
+  const TName extends string,
+  TTargetFields extends Record<string, Record<string, DrizzleSqlColumn>>,
+>(relation: {
+  relationName: TName;
+  /** The column on the **parent** row naming the target (its key in `targets`). */
+  typeKey: DrizzleSqlColumn;
+  /** The column(s) on the **parent** row that reference the target row. */
+  foreignKey: DrizzleSqlColumn | DrizzleSqlColumn[];
+  targets: {
+    [TType in keyof TTargetFields]: DrizzleMorphToTarget<TTargetFields[TType]>;
+  };
+}): AnyDrizzleRelation & {
+  relationName: TName;
+  fields: TTargetFields[keyof TTargetFields];
+  mode: 'one';
+} {
+  const targetEntries: [string, DrizzleMorphToTarget<Record<string, DrizzleSqlColumn>>][] =
+    Object.entries(relation.targets);
+  const morphTargets = targetEntries.map(([type, target]): AnyDrizzleRelation => ({
+    relationName: relation.relationName,
+    kind: 'belongsTo',
+    mode: 'one',
+    fields: target.fields,
+    parentKey: relation.foreignKey,
+    foreignKey: target.ownerKey,
+    discriminator: { column: relation.typeKey, value: type },
+    morphTarget: true,
+    where: target.where,
+    orderBy: target.orderBy,
+    buildQuery: target.buildQuery,
+  }));
+  const fields: TTargetFields[keyof TTargetFields] = Object.assign(
+    {},
+    ...targetEntries.map(([, target]) => target.fields),
+  );
+  return {
+    relationName: relation.relationName,
+    kind: 'belongsTo',
+    mode: 'one',
+    fields,
+    parentKey: relation.foreignKey,
+    foreignKey: [],
+    morphTargets,
+    buildQuery: (): never => {
+      throw new DrizzlePaginationError(
+        `Relation "${relation.relationName}": a morphTo relation is queried through its targets`,
+      );
+    },
+  };
+}
+
+/** Replaces the `defineMorphTo` relations of a list with their targets. */
+function expandMorphTargets(relations: readonly AnyDrizzleRelation[]): AnyDrizzleRelation[] {
+  return relations.flatMap((relation) => relation.morphTargets ?? [relation]);
+}
+
 /**
  * Extracts the `mode` from a `DrizzleRelation`.
  * Defaults to `'many'` when not specified.
@@ -309,6 +806,7 @@ export type InferRelationsData<TRelations extends readonly AnyDrizzleRelation[]>
           ? InferRelationRow<TFirst> | null
           : InferRelationRow<TFirst>[]
       > &
+        InferRelationAggregatesData<TFirst> &
         (TRest extends readonly AnyDrizzleRelation[] ? InferRelationsData<TRest> : unknown)
     : unknown;
 
@@ -338,10 +836,32 @@ export interface DrizzleRelationQuery<TColumn> {
   foreignKeyAlias: string | string[];
   /** Assembly mode: `'many'` → array, `'one'` → single object or null. */
   mode: RelationMode;
-  /** Max children per parent (applied during assembly). `undefined` = no limit. */
+  /** Max children per parent (re-applied during assembly). `undefined` = no limit. */
   limit?: number;
+  /**
+   * Set on the queries of `defineMorphTo` targets: only the parent rows whose
+   * type column (selected under `alias`) holds one of `values` are matched.
+   */
+  morphType?: { alias: string; values: readonly unknown[] };
   /** The ready-to-execute Drizzle dynamic query. */
   query: DrizzleDynamicQuery;
+  /** Queries of nested relations, scoped to this relation's rows. */
+  relations?: DrizzleRelationQuery<TColumn>[];
+  /**
+   * Set on the grouped aggregate query of a relation. Its values are attached
+   * to each parent row under their `key` instead of a relation property.
+   */
+  aggregates?: DrizzleRelationAggregateOutput[];
+}
+
+/** A relation aggregate value read from a grouped aggregate query. */
+export interface DrizzleRelationAggregateOutput {
+  /** Column alias of the value in the aggregate query. */
+  alias: string;
+  /** Key of the value in the assembled parent row (e.g. `"posts__count"`). */
+  key: string;
+  /** Value attached to parents without related rows (`0` or `null`). */
+  emptyValue: number | null;
 }
 
 /**
@@ -359,8 +879,11 @@ export interface DrizzlePaginationResult<
 > {
   /** Ready-to-execute main query (with WHERE / ORDER / LIMIT / OFFSET applied). */
   query: DrizzleDynamicQuery;
-  /** Raw pagination clauses for advanced use-cases. */
-  clauses: DrizzlePaginationClauses<TColumn, SQL, SQL>;
+  /**
+   * Raw pagination clauses for advanced use-cases. The select also holds the
+   * SQL expressions of relation aggregate sorts and full-text scores.
+   */
+  clauses: DrizzlePaginationClauses<TColumn | SQL, SQL, SQL>;
   /** Per-relation sub-queries. */
   relationQueries: DrizzleRelationQuery<DrizzleSqlColumn>[];
   /**
@@ -380,13 +903,102 @@ export interface DrizzlePaginationResult<
   execute: () => Promise<DrizzlePaginationExecuteResult<TFields, TRelations, TType>>;
 }
 
+/**
+ * `CURSOR` response metadata with cursors for both directions.
+ * `cursor` is kept equal to the next-page cursor for backward compatibility;
+ * on an empty page it is the incoming cursor, or `null` on the first page,
+ * and with `detectNextPage` it is `null` on the last page.
+ */
+export interface DrizzleCursorPaginationResponseMeta extends Omit<
+  CursorPaginationResponseMeta,
+  'cursor' | 'filter'
+> {
+  cursor: CursorPaginationResponseMeta['cursor'] | null;
+  filter?: DrizzleWhereNode;
+  /**
+   * Token for the page after the last row, or `null` when the page is empty
+   * or, with `detectNextPage`, when it is the last page.
+   */
+  nextCursor: string | null;
+  /**
+   * Token for the page before the first row, or `null` on the first page
+   * (no incoming cursor) or when the page is empty.
+   */
+  previousCursor: string | null;
+  /**
+   * Whether a page follows the last row, whatever the cursor direction: after
+   * a `'before'` read it is always `true` (the page the cursor came from).
+   * Only set when `detectNextPage` is enabled on `generatePaginationQuery`.
+   */
+  hasNextPage?: boolean;
+  /**
+   * Whether a page precedes the first row: probed on `'before'` reads, `true`
+   * on forward reads from a cursor. Only set when `detectNextPage` is enabled.
+   */
+  hasPreviousPage?: boolean;
+}
+
+/**
+ * How `LIMIT_OFFSET` totals are computed:
+ * - `'exact'` — `COUNT(*)` over the filtered query (default).
+ * - `'estimated'` — catalog statistics (PG `reltuples`, MySQL
+ *   `information_schema.tables.table_rows`) of `estimateTable`; falls back to
+ *   `'exact'` when the query is filtered, the table is ambiguous or the
+ *   dialect keeps no statistics (SQLite).
+ * - `'window'` — `count(*) over()` added to the main select, so the page and
+ *   its total come from one statement; falls back to `COUNT(*)` when the page
+ *   is empty. Reported as `'exact'`. It counts the rows of the page query
+ *   (groups under `groupBy`, joined rows under a one-to-many join), so it
+ *   cannot be combined with `countStrategy: 'distinct'`.
+ * - `'none'` — no totals; `hasNextPage` comes from a `limit + 1` probe.
+ */
+export type DrizzleCountMode = 'exact' | 'estimated' | 'window' | 'none';
+
+/**
+ * How the `COUNT(*)` query is built:
+ * - `'simple'` — `count(*)` over `buildQuery` (default).
+ * - `'subquery'` — `select count(*) from (<filtered query>)`, correct when
+ *   `buildQuery` uses `groupBy` or `selectDistinct`.
+ * - `'distinct'` — `count(distinct <countDistinctKey>)`, counting parents
+ *   once when `buildQuery` joins a one-to-many table.
+ */
+export type DrizzleCountStrategy = 'simple' | 'subquery' | 'distinct';
+
+/**
+ * How an `or` group mixing main-table and relation fields (or fields of
+ * several relations) is handled:
+ * - `'reject'` (default): throws a `MixedFilterScopeError`.
+ * - `'exists'`: compiles the whole group into one main-query predicate,
+ *   relation conditions becoming `EXISTS` subqueries. The group then filters
+ *   the parent rows only.
+ */
+export type DrizzleMixedOrFilterMode = 'reject' | 'exists';
+
+/**
+ * `LIMIT_OFFSET` response metadata. `countMode` tells whether the totals are
+ * exact, approximate, or absent (`null`, with `hasNextPage` instead).
+ */
+export type DrizzleLimitOffsetPaginationResponseMeta =
+  | (LimitOffsetResponseMeta & { countMode: 'exact' | 'estimated' })
+  | (Omit<LimitOffsetResponseMeta, 'totalItems' | 'totalPages'> & {
+      countMode: 'none';
+      totalItems: null;
+      totalPages: null;
+      hasNextPage: boolean;
+    });
+
+/** `LimitOffsetPaginationResponseMeta` whose `filter` may hold custom conditions. */
+type LimitOffsetResponseMeta = Omit<LimitOffsetPaginationResponseMeta, 'filter'> & {
+  filter?: DrizzleWhereNode;
+};
+
 /** Maps a `PaginationType` to its corresponding response metadata type. */
 export type InferPaginationResponseMeta<TType extends PaginationType = PaginationType> =
   TType extends 'LIMIT_OFFSET'
-    ? LimitOffsetPaginationResponseMeta
+    ? DrizzleLimitOffsetPaginationResponseMeta
     : TType extends 'CURSOR'
-      ? CursorPaginationResponseMeta
-      : LimitOffsetPaginationResponseMeta | CursorPaginationResponseMeta;
+      ? DrizzleCursorPaginationResponseMeta
+      : DrizzleLimitOffsetPaginationResponseMeta | DrizzleCursorPaginationResponseMeta;
 
 /** Return type of `DrizzlePaginationResult.execute()`. */
 export interface DrizzlePaginationExecuteResult<
@@ -448,14 +1060,61 @@ export type DrizzleSelectShape<TColumn> = Record<string, TColumn>;
 /**
  * Infers query-mode data types from a Drizzle fields map.
  * Handles nullable columns correctly via `GetColumnData` (adds `| null` when
- * the column is not marked as `notNull`).
+ * the column is not marked as `notNull`), and takes the type of computed
+ * fields from their `sql<T>` declaration.
  *
  * Result is a `Partial` because pagination may select only a subset of fields.
  */
 export type InferFieldsData<TFields extends Record<string, unknown>> = Partial<{
-  [K in keyof TFields]: TFields[K] extends Column ? GetColumnData<TFields[K]> : unknown;
+  [K in keyof TFields]: InferFieldData<TFields[K]>;
 }>;
 
+/** Data type of one field-map entry: a column or an `sql<T>` expression. */
+type InferFieldData<TField> = TField extends Column
+  ? GetColumnData<TField>
+  : TField extends SQL<infer TData> | SQL.Aliased<infer TData>
+    ? TData
+    : unknown;
+
+/**
+ * Runtime data type of a computed field (see `defineComputedField`). It
+ * decodes the driver values and restores cursor values of the field.
+ */
+export type DrizzleComputedFieldDataType =
+  'string' | 'number' | 'bigint' | 'boolean' | 'date' | 'json';
+
+/**
+ * A filter condition on a custom operator (see `filterOperators`) or on
+ * `$fts`. zod-paginate does not parse these operators: only server code builds
+ * them, with `buildCustomFilter` (or `search`). `op` must not be one of
+ * zod-paginate's built-in operators.
+ */
+export interface DrizzleCustomCondition {
+  group: string;
+  op: `$${string}`;
+  value: unknown;
+  not?: boolean;
+}
+
+/** A filter condition compiled by the adapter: a parsed one or a custom one. */
+export type DrizzleCondition = Condition | DrizzleCustomCondition;
+
+/** zod-paginate's `WhereNode`, whose filters may also hold custom conditions. */
+export type DrizzleWhereNode =
+  | { type: 'filter'; field: string; condition: DrizzleCondition }
+  | { type: 'and' | 'or'; items: DrizzleWhereNode[] };
+
+/** Parsed pagination whose `filters` may also hold custom conditions. */
+export type DrizzlePaginationPayload<
+  TSchema,
+  TType extends PaginationType = PaginationType,
+> = WithDrizzleFilters<PaginationPayload<TSchema, TType>>;
+
+/** Widens the `filters` of each member of a parsed pagination union. */
+type WithDrizzleFilters<TPayload> = TPayload extends unknown
+  ? Omit<TPayload, 'filters'> & { filters?: DrizzleWhereNode }
+  : never;
+
 export interface DrizzleOperatorSet<TColumn, TWhereExpr, TOrderByExpr> {
   eq: (column: TColumn, value: unknown) => TWhereExpr;
   isNull: (column: TColumn) => TWhereExpr;
@@ -471,6 +1130,16 @@ export interface DrizzleOperatorSet<TColumn, TWhereExpr, TOrderByExpr> {
   asc: (column: TColumn) => TOrderByExpr;
   desc: (column: TColumn) => TOrderByExpr;
   contains?: (column: TColumn, values: readonly string[]) => TWhereExpr;
+  /**
+   * Full-text match for `$fts` filters. `language` is the text search
+   * configuration of the filtered field, when one is configured.
+   */
+  fts?: (column: TColumn, query: string, language?: string) => TWhereExpr;
+  /**
+   * Custom operators by name (e.g. `$regex`), consulted before the built-in
+   * ones. Filled from the `filterOperators` config option.
+   */
+  custom?: Readonly<Record<string, (column: TColumn, value: unknown) => TWhereExpr>>;
 }
 
 export type DrizzleFieldMap<TSchema extends DataSchema, TColumn> = Partial<
@@ -485,9 +1154,23 @@ export interface BuildDrizzleClausesConfig<
   TOrderByExpr,
 > {
   fields: DrizzleFieldMap<TSchema, TColumn>;
-  operators: DrizzleOperatorSet<TColumn, TWhereExpr, TOrderByExpr>;
+  /** Also compiles the SQL "is null" flags of nullable cursor keys. */
+  operators: DrizzleOperatorSet<TColumn | SQL, TWhereExpr, TOrderByExpr>;
   selectAlias?: (fieldPath: string) => string;
   strictFieldMapping?: boolean;
+  /** Codec used to decode the incoming cursor token. Defaults to `createCursorCodec()`. */
+  cursorCodec?: DrizzleCursorCodec;
+  /**
+   * Columns typing the cursor values of fields mapped to SQL expressions
+   * (e.g. a relation `max()`), keyed by field path.
+   */
+  cursorValueColumns?: Partial<Record<string, Column>>;
+  /**
+   * `1` / `0` "is null" flags of nullable sort fields (e.g. a relation
+   * `max()` of a parent without related rows), keyed by field path. The
+   * keyset sorts their NULLs last and compares them with `IS NULL`.
+   */
+  cursorNullFlags?: Partial<Record<string, SQL>>;
 }
 
 export interface DrizzlePaginationClauses<TColumn, TWhereExpr, TOrderByExpr> {
@@ -500,12 +1183,84 @@ export interface DrizzlePaginationClauses<TColumn, TWhereExpr, TOrderByExpr> {
   cursor?: number | string;
   /** Present only for `CURSOR` pagination — the resolved cursor property name. */
   cursorProperty?: string;
+  /**
+   * Present only for `CURSOR` pagination — every keyset column, in order:
+   * the mapped `sortBy` properties followed by `cursorProperty` as a unique
+   * tiebreaker (when it is not already sorted on).
+   */
+  cursorProperties?: string[];
+  /**
+   * Present only for `CURSOR` pagination — the side of the incoming cursor
+   * being read. With `'before'`, the comparisons **and** `orderBy` are
+   * inverted, so the rows come back in reverse order and must be reversed
+   * by the caller (`execute()` does it for you).
+   */
+  cursorDirection?: CursorDirection;
 }
 
 export type DrizzleSqlColumn = Parameters<typeof drizzleIlike>[0];
 export type DrizzleSqlOperatorSet = DrizzleOperatorSet<DrizzleSqlColumn, SQL, SQL>;
 
-export type DrizzleDialect = 'pg' | 'mysql';
+export type DrizzleDialect = 'pg' | 'mysql' | 'sqlite';
+
+/**
+ * A custom filter operator: compiles a filter on a column to SQL.
+ *
+ * `value` is the zod schema of the filter value. The value is parsed with it
+ * before `compile` is called, so unchecked input never reaches the SQL.
+ *
+ * Uses method syntax for `compile` so that operators with a narrower value
+ * type can be collected in a `DrizzleFilterOperators` registry.
+ */
+export interface DrizzleFilterOperator<TValue = unknown> {
+  value: ZodType<TValue>;
+  compile(column: DrizzleSqlColumn, value: TValue, dialect: DrizzleDialect): SQL;
+}
+
+/**
+ * Registry of custom filter operators by name, e.g.
+ * `{ $regex: defineFilterOperator({ … }) }`. A name shared with a built-in
+ * operator overrides it.
+ */
+export type DrizzleFilterOperators = Readonly<Record<`$${string}`, DrizzleFilterOperator>>;
+
+/**
+ * Options of the `$fts` full-text operator.
+ *
+ * @example
+ * ```ts
+ * fullTextSearch: {
+ *   languages: { title: 'english', 'posts.body': 'french' },
+ *   scores: { relevance: 'title' },
+ * }
+ * ```
+ */
+export interface DrizzleFullTextSearchConfig {
+  /**
+   * Text search configuration by field path (`regconfig` on PG, e.g.
+   * `'english'`). Fields without one use the server default. MySQL ignores
+   * it: the language comes from the parser of the `FULLTEXT` index. The
+   * language applies to the mapped column, so field paths mapped to the same
+   * column cannot have different languages (`DrizzlePaginationError`).
+   */
+  languages?: Readonly<Partial<Record<string, string>>>;
+  /**
+   * Relevance scores by name, each ranking one main-table field path:
+   * `ts_rank` on PG, the `MATCH … AGAINST` score on MySQL. A score is
+   * computed from the first non-negated `$fts` filter on its field (`null`
+   * without one), and can be selected and sorted on like a field.
+   */
+  scores?: Readonly<Partial<Record<string, string>>>;
+}
+
+/** How a `searchableFields` entry matches the `search` value: `$ilike` or `$fts`. */
+export type DrizzleSearchMatch = 'ilike' | 'fts';
+
+/**
+ * A field matched by the global `search` value: a field path (matched with
+ * `$ilike`) or a field path with its match, e.g. `{ field: 'bio', match: 'fts' }`.
+ */
+export type DrizzleSearchableField = string | { field: string; match: DrizzleSearchMatch };
 
 export interface DrizzleDynamicQuery<
   TResult = Record<string, unknown>[],
@@ -532,29 +1287,220 @@ export interface ApplyDrizzlePaginationOnQueryConfig<
   strictFieldMapping?: boolean;
   selectAlias?: (fieldPath: string) => string;
   operators?: DrizzleSqlOperatorSet;
+  filterOperators?: DrizzleFilterOperators;
+  fullTextSearch?: DrizzleFullTextSearchConfig;
+  cursorCodec?: DrizzleCursorCodec;
+}
+
+// ─── Errors ─────────────────────────────────────────────────────────────────
+
+/** Base class for the typed errors thrown by this adapter. */
+export class DrizzlePaginationError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
 }
 
 /**
- * Builds a Drizzle `AND` SQL expression and ensures the resulting expression exists.
+ * Thrown when an incoming cursor token cannot be decoded, fails signature
+ * verification, or does not match the keyset of the current query.
  */
-function andSql(...expressions: SQL[]): SQL {
-  const result = drizzleAnd(...expressions);
-  if (!result) throw new Error('Cannot build AND expression from an empty list');
-  return result;
-}
+export class InvalidCursorError extends DrizzlePaginationError {}
 
 /**
- * Builds a Drizzle `OR` SQL expression and ensures the resulting expression exists.
+ * Thrown when an `or` filter group mixes fields of different scopes (the main
+ * table and relations) and `mixedOrFilters` is `'reject'`: splitting it per
+ * scope would change what the filter means.
  */
-function orSql(...expressions: SQL[]): SQL {
-  const result = drizzleOr(...expressions);
-  if (!result) throw new Error('Cannot build OR expression from an empty list');
+export class MixedFilterScopeError extends DrizzlePaginationError {
+  public constructor(
+    /** Field paths of the offending group. */
+    public readonly fields: string[],
+  ) {
+    super(
+      `Filter group "or(${fields.join(', ')})" mixes main and relation fields; ` +
+        `set mixedOrFilters: 'exists' to compile it with EXISTS subqueries`,
+    );
+  }
+}
+
+/**
+ * Thrown when the value of a custom filter operator does not match the
+ * `value` schema of its `DrizzleFilterOperator`.
+ */
+export class InvalidFilterValueError extends DrizzlePaginationError {
+  public constructor(
+    /** Name of the operator (e.g. `"$regex"`). */
+    public readonly operator: string,
+    reason: string,
+  ) {
+    super(`Invalid value for filter operator "${operator}": ${reason}`);
+  }
+}
+
+// ─── Cursor tokens ──────────────────────────────────────────────────────────
+
+/**
+ * Which side of the boundary row a cursor points to:
+ * - `'after'`: the next page (rows after the last row of the current page).
+ * - `'before'`: the previous page (rows before the first row of the current page).
+ */
+export type CursorDirection = 'after' | 'before';
+
+/** Decoded content of a cursor token. */
+export interface DrizzleCursorPayload {
+  /** Keyset values of the boundary row, keyed by field path. */
+  values: Record<string, unknown>;
+  /** Side of the boundary row to read. Defaults to `'after'`. */
+  direction?: CursorDirection;
+}
+
+/**
+ * Turns cursor payloads into opaque tokens and back.
+ *
+ * `decode` must throw an `InvalidCursorError` for malformed or forged tokens.
+ */
+export interface DrizzleCursorCodec {
+  encode(payload: DrizzleCursorPayload): string;
+  decode(token: string): DrizzleCursorPayload;
+}
+
+/** Options for `createCursorCodec`. */
+export interface CreateCursorCodecOptions {
+  /**
+   * When set, tokens are signed with HMAC-SHA256 and tokens whose signature
+   * does not match are rejected.
+   */
+  secret?: string;
+}
+
+/** Base64url alphabet, without padding. */
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Creates the default cursor codec: base64url-encoded JSON, optionally
+ * signed with an HMAC (`<payload>.<signature>`) when a `secret` is given.
+ *
+ * Dates are serialized as ISO strings and bigints as strings; they are
+ * restored from the column type when the cursor predicate is built.
+ *
+ * @example
+ * ```ts
+ * const cursorCodec = createCursorCodec({ secret: process.env.CURSOR_SECRET });
+ * generatePaginationQuery(parsed, { ...config, cursorCodec });
+ * ```
+ */
+export function createCursorCodec(options: CreateCursorCodecOptions = {}): DrizzleCursorCodec {
+  const { secret } = options;
+  const sign = (body: string): string =>
+    createHmac('sha256', secret ?? '')
+      .update(body)
+      .digest('base64url');
+
+  return {
+    encode(payload: DrizzleCursorPayload): string {
+      const json = JSON.stringify(payload, (key, value: unknown) =>
+        typeof value === 'bigint' ? value.toString() : value,
+      );
+      const body = Buffer.from(json, 'utf8').toString('base64url');
+      return secret === undefined ? body : `${body}.${sign(body)}`;
+    },
+
+    decode(token: string): DrizzleCursorPayload {
+      const [body, signature, ...rest] = token.split('.');
+      if (body === undefined || rest.length > 0 || !BASE64URL_PATTERN.test(body)) {
+        throw new InvalidCursorError('Malformed cursor token');
+      }
+
+      if (secret !== undefined) {
+        const expected = Buffer.from(sign(body));
+        const actual = Buffer.from(signature ?? '');
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+          throw new InvalidCursorError('Cursor token signature does not match');
+        }
+      } else if (signature !== undefined) {
+        throw new InvalidCursorError('Malformed cursor token');
+      }
+
+      let decoded: unknown;
+      try {
+        decoded = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+      } catch {
+        throw new InvalidCursorError('Malformed cursor token');
+      }
+
+      if (
+        typeof decoded !== 'object' ||
+        decoded === null ||
+        !('values' in decoded) ||
+        typeof decoded.values !== 'object' ||
+        decoded.values === null ||
+        Array.isArray(decoded.values)
+      ) {
+        throw new InvalidCursorError('Malformed cursor token');
+      }
+
+      const direction = 'direction' in decoded ? decoded.direction : undefined;
+      if (direction !== undefined && direction !== 'after' && direction !== 'before') {
+        throw new InvalidCursorError('Malformed cursor token');
+      }
+
+      return { values: { ...decoded.values }, direction };
+    },
+  };
+}
+
+/**
+ * Builds a Drizzle `AND` SQL expression and ensures the resulting expression exists.
+ */
+function andSql(...expressions: SQL[]): SQL {
+  const result = drizzleAnd(...expressions);
+  if (!result) throw new Error('Cannot build AND expression from an empty list');
+  return result;
+}
+
+/**
+ * Builds a Drizzle `OR` SQL expression and ensures the resulting expression exists.
+ */
+function orSql(...expressions: SQL[]): SQL {
+  const result = drizzleOr(...expressions);
+  if (!result) throw new Error('Cannot build OR expression from an empty list');
   return result;
 }
 
+/**
+ * PG `tsvector` of a column, with an inlined text search configuration so
+ * that expression indexes such as `to_tsvector('english', title)` match.
+ */
+function pgTsVector(column: DrizzleSqlColumn, language: string | undefined): SQL {
+  if (language === undefined) return sql`to_tsvector(${column})`;
+  return sql`to_tsvector(${sql.raw(`'${language.replaceAll("'", "''")}'`)}, ${column})`;
+}
+
+/** PG `tsquery` parsed from web-search syntax (`"exact phrase" -word or other`). */
+function pgTsQuery(query: string, language: string | undefined): SQL {
+  if (language === undefined) return sql`websearch_to_tsquery(${query})`;
+  return sql`websearch_to_tsquery(${sql.raw(`'${language.replaceAll("'", "''")}'`)}, ${query})`;
+}
+
+/** PG full-text match: `to_tsvector(config, col) @@ websearch_to_tsquery(config, ?)`. */
+function pgFullTextSearch(column: DrizzleSqlColumn, query: string, language?: string): SQL {
+  return sql`${pgTsVector(column, language)} @@ ${pgTsQuery(query, language)}`;
+}
+
+/**
+ * MySQL full-text match in boolean mode. It requires a `FULLTEXT` index on
+ * the column; the language comes from the index parser instead.
+ */
+function mysqlFullTextSearch(column: DrizzleSqlColumn, query: string): SQL {
+  return sql`match(${column}) against(${query} in boolean mode)`;
+}
+
 /**
  * Ready-to-use operator set for Drizzle + PostgreSQL.
- * Includes `$contains` support via `arrayContains`.
+ * Includes `$contains` support via `arrayContains` and `$fts` via
+ * `websearch_to_tsquery`.
  */
 export function createPgDrizzleOperators(): DrizzleSqlOperatorSet {
   return {
@@ -572,12 +1518,14 @@ export function createPgDrizzleOperators(): DrizzleSqlOperatorSet {
     asc: drizzleAsc,
     desc: drizzleDesc,
     contains: drizzleArrayContains,
+    fts: pgFullTextSearch,
   };
 }
 
 /**
  * Ready-to-use operator set for Drizzle + MySQL.
  * `$ilike` and `$sw` are mapped to `like` (case-insensitive behavior depends on collation).
+ * `$fts` is mapped to `MATCH … AGAINST` in boolean mode.
  * `$contains` is intentionally not provided by default.
  */
 export function createMySqlDrizzleOperators(): DrizzleSqlOperatorSet {
@@ -595,7 +1543,336 @@ export function createMySqlDrizzleOperators(): DrizzleSqlOperatorSet {
     not: drizzleNot,
     asc: drizzleAsc,
     desc: drizzleDesc,
+    fts: mysqlFullTextSearch,
+  };
+}
+
+/**
+ * SQLite `LIKE` with case folding on both sides and an explicit `ESCAPE`
+ * clause (SQLite has no default escape character).
+ */
+function sqliteIlike(column: DrizzleSqlColumn, value: string): SQL {
+  return sql`lower(${column}) like lower(${value}) escape '\\'`;
+}
+
+/**
+ * SQLite array containment for JSON array columns: every value must appear
+ * in `json_each(column)`.
+ */
+function sqliteJsonArrayContains(column: DrizzleSqlColumn, values: readonly string[]): SQL {
+  if (values.length === 0) return sql`json_type(${column}) = 'array'`;
+  return andSql(
+    ...values.map(
+      (value) => sql`exists (select 1 from json_each(${column}) where json_each.value = ${value})`,
+    ),
+  );
+}
+
+/**
+ * Ready-to-use operator set for Drizzle + SQLite / libSQL.
+ * `$ilike` and `$sw` lower-case both sides and use an explicit `ESCAPE` clause.
+ * `$contains` expects a JSON array column and is resolved through `json_each`.
+ */
+export function createSqliteDrizzleOperators(): DrizzleSqlOperatorSet {
+  return {
+    eq: drizzleEq,
+    isNull: drizzleIsNull,
+    inArray: drizzleInArray,
+    gt: drizzleGt,
+    gte: drizzleGte,
+    lt: drizzleLt,
+    lte: drizzleLte,
+    ilike: sqliteIlike,
+    and: andSql,
+    or: orSql,
+    not: drizzleNot,
+    asc: drizzleAsc,
+    desc: drizzleDesc,
+    contains: sqliteJsonArrayContains,
+  };
+}
+
+/** What the adapter knows about an expression declared as a computed field. */
+interface ComputedField {
+  dataType: DrizzleComputedFieldDataType;
+  /** `$contains` on the field, for JSON array fields (see `defineJsonField`). */
+  contains?: (values: readonly string[]) => SQL;
+  /** Dialect a `defineJsonField` path is compiled for. */
+  dialect?: DrizzleDialect;
+}
+
+/** Expressions declared with `defineComputedField` or `defineJsonField`. */
+const computedFields = new WeakMap<SQL, ComputedField>();
+
+/**
+ * Declares a computed field: an SQL expression used in a field map like a
+ * column — selected, filtered and sorted on. Its row type comes from the
+ * `sql<T>` declaration; `dataType` decodes the driver values (e.g. PG
+ * returns `numeric` and `bigint` as strings) and restores cursor values.
+ *
+ * @example
+ * ```ts
+ * fields: {
+ *   id: users.id,
+ *   fullName: defineComputedField(sql<string>`concat(${users.first}, ' ', ${users.last})`, 'string'),
+ *   age: defineComputedField(sql<number>`date_part('year', age(${users.birthdate}))`, 'number'),
+ * }
+ * ```
+ */
+export function defineComputedField<TData>(
+  expression: SQL<TData>,
+  dataType: DrizzleComputedFieldDataType,
+): SQL<TData> {
+  // `mapWith` sets the decoder in place; the declared `sql<T>` type is kept.
+  expression.mapWith((value: unknown): unknown => decodeComputedValue(dataType, value));
+  computedFields.set(expression, { dataType });
+  return expression;
+}
+
+/** Decodes a driver value (or a cursor value) of a computed field by its data type. */
+function decodeComputedValue(dataType: DrizzleComputedFieldDataType, value: unknown): unknown {
+  switch (dataType) {
+    case 'number':
+      return typeof value === 'number' ? value : Number(value);
+    case 'bigint':
+      return typeof value === 'string' || typeof value === 'number' ? BigInt(value) : value;
+    case 'boolean':
+      return value === true || value === 1 || value === '1' || value === 't' || value === 'true';
+    case 'date':
+      return typeof value === 'string' || typeof value === 'number' ? new Date(value) : value;
+    case 'json':
+      return parseJsonValue(value);
+    case 'string':
+      return typeof value === 'string' ? value : String(value);
+  }
+}
+
+/** Data type of a field declared with `defineComputedField`, if it is one. */
+function computedFieldDataType(field: unknown): DrizzleComputedFieldDataType | undefined {
+  return drizzleIs(field, SQL) ? computedFields.get(field)?.dataType : undefined;
+}
+
+/** Row type of a computed field of the given data type. */
+type ComputedFieldData<TDataType extends DrizzleComputedFieldDataType> = {
+  string: string;
+  number: number;
+  bigint: bigint;
+  boolean: boolean;
+  date: Date;
+  json: unknown;
+}[TDataType];
+
+/** Options of `defineJsonField`. */
+export interface DrizzleJsonFieldOptions<TDataType extends DrizzleComputedFieldDataType> {
+  /**
+   * Dialect the path expression is compiled for. It must match the `dialect`
+   * of the queries using the field, which throw `DrizzlePaginationError`
+   * otherwise.
+   */
+  dialect: DrizzleDialect;
+  /**
+   * Type the value is cast to, for numeric, boolean and date comparisons and
+   * sorting. `'json'` keeps arrays and objects as JSON, which `$contains`
+   * requires. Defaults to `'string'`.
+   */
+  dataType?: TDataType;
+}
+
+/** Keys allowed in JSON paths: they are inlined in the SQL. */
+const JSON_PATH_KEY_PATTERN = /^[A-Za-z_]\w*$/;
+
+/**
+ * Declares a field reading a value at a path of a JSON / JSONB column,
+ * usable in `select`, `filters` and `sortBy` like a column:
+ * - PG: `col->>'a'` / `col #>> '{a,b}'` (`->` / `#>` for `'json'`), cast with `::numeric`, `::boolean`…
+ * - MySQL: `json_unquote(json_extract(col, '$.a'))`, cast with `cast(… as double)`…
+ * - SQLite: `json_extract(col, '$.a')`, which already returns SQL values.
+ *
+ * `$contains` on a `'json'` field checks that its JSON array contains every
+ * value. Missing keys read as `null`.
+ *
+ * @example
+ * ```ts
+ * fields: {
+ *   theme: defineJsonField(users.settings, 'theme', { dialect: 'pg' }),
+ *   fontSize: defineJsonField(users.settings, 'display.fontSize', { dialect: 'pg', dataType: 'number' }),
+ *   tags: defineJsonField(users.meta, 'tags', { dialect: 'pg', dataType: 'json' }),
+ * }
+ * ```
+ */
+export function defineJsonField<TDataType extends DrizzleComputedFieldDataType = 'string'>(
+  column: DrizzleSqlColumn,
+  path: string | readonly string[],
+  options: DrizzleJsonFieldOptions<TDataType>,
+): SQL<ComputedFieldData<TDataType> | null> {
+  const keys = typeof path === 'string' ? path.split('.') : [...path];
+  const invalidKey = keys.find((key) => !JSON_PATH_KEY_PATTERN.test(key));
+  if (keys.length === 0 || invalidKey !== undefined) {
+    throw new DrizzlePaginationError(
+      `Invalid JSON path "${keys.join('.')}": keys must be identifiers`,
+    );
+  }
+  const dataType: DrizzleComputedFieldDataType = options.dataType ?? 'string';
+
+  const { expression, contains } = buildJsonPathField(options.dialect, column, keys, dataType);
+  const field = sql<ComputedFieldData<TDataType> | null>`${expression}`;
+  field.mapWith((value: unknown): unknown => decodeComputedValue(dataType, value));
+  computedFields.set(
+    field,
+    dataType === 'json'
+      ? { dataType, contains, dialect: options.dialect }
+      : { dataType, dialect: options.dialect },
+  );
+  return field;
+}
+
+/**
+ * Throws when a `defineJsonField` field of the field maps (relations
+ * included) is compiled for another dialect than the query's.
+ */
+function assertJsonFieldDialects(
+  dialect: DrizzleDialect,
+  fields: DrizzleFieldMap<DataSchema, DrizzleSqlColumn>,
+  relations: readonly AnyDrizzleRelation[],
+  pathPrefix = '',
+): void {
+  for (const [fieldPath, field] of Object.entries(fields)) {
+    const fieldDialect = drizzleIs(field, SQL) ? computedFields.get(field)?.dialect : undefined;
+    if (fieldDialect !== undefined && fieldDialect !== dialect) {
+      throw new DrizzlePaginationError(
+        `JSON field "${pathPrefix}${fieldPath}" is compiled for ${fieldDialect}, but the query dialect is ${dialect}`,
+      );
+    }
+  }
+  for (const relation of relations) {
+    assertJsonFieldDialects(
+      dialect,
+      relation.fields,
+      expandMorphTargets(relation.relations ?? []),
+      `${pathPrefix}${relation.relationName}.`,
+    );
+  }
+}
+
+/** Compiles the value expression of a JSON path field and its `$contains`. */
+function buildJsonPathField(
+  dialect: DrizzleDialect,
+  column: DrizzleSqlColumn,
+  keys: readonly string[],
+  dataType: DrizzleComputedFieldDataType,
+): { expression: SQL; contains: (values: readonly string[]) => SQL } {
+  if (dialect === 'pg') {
+    const [firstKey] = keys;
+    const single = keys.length === 1 && firstKey !== undefined;
+    const pathLiteral = sql.raw(single ? `'${firstKey}'` : `'{${keys.join(',')}}'`);
+    const json = single ? sql`(${column} -> ${pathLiteral})` : sql`(${column} #> ${pathLiteral})`;
+    const text = single ? sql`(${column} ->> ${pathLiteral})` : sql`(${column} #>> ${pathLiteral})`;
+    return {
+      expression: castJsonText(dialect, dataType, json, text),
+      contains: (values): SQL => sql`${json}::jsonb @> ${JSON.stringify(values)}::jsonb`,
+    };
+  }
+
+  const jsonPath = sql.raw(`'$.${keys.join('.')}'`);
+  const json = sql`json_extract(${column}, ${jsonPath})`;
+  if (dialect === 'sqlite') {
+    return { expression: json, contains: (values): SQL => sqliteJsonArrayContains(json, values) };
+  }
+  return {
+    expression: castJsonText(dialect, dataType, json, sql`json_unquote(${json})`),
+    contains: (values): SQL => sql`json_contains(${json}, ${JSON.stringify(values)})`,
+  };
+}
+
+/** Casts the text of a JSON value to a data type, in the given dialect (PG or MySQL). */
+function castJsonText(
+  dialect: DrizzleDialect,
+  dataType: DrizzleComputedFieldDataType,
+  json: SQL,
+  text: SQL,
+): SQL {
+  switch (dataType) {
+    case 'json':
+      return json;
+    case 'string':
+      return text;
+    case 'number':
+      return dialect === 'pg' ? sql`${text}::numeric` : sql`cast(${text} as double)`;
+    case 'bigint':
+      return dialect === 'pg' ? sql`${text}::bigint` : sql`cast(${text} as signed)`;
+    case 'boolean':
+      return dialect === 'pg' ? sql`${text}::boolean` : sql`(${text} = 'true')`;
+    case 'date':
+      return dialect === 'pg' ? sql`${text}::timestamptz` : sql`cast(${text} as datetime)`;
+  }
+}
+
+/**
+ * Helper that infers the value type of a custom filter operator from its
+ * zod schema, so `compile` receives the parsed value.
+ *
+ * @example
+ * ```ts
+ * const filterOperators = {
+ *   $regex: defineFilterOperator({
+ *     value: z.string().max(200),
+ *     compile: (column, value, dialect) =>
+ *       dialect === 'pg' ? sql`${column} ~ ${value}` : sql`${column} regexp ${value}`,
+ *   }),
+ * };
+ * ```
+ */
+export function defineFilterOperator<TValue>(operator: {
+  value: ZodType<TValue>;
+  compile: (column: DrizzleSqlColumn, value: TValue, dialect: DrizzleDialect) => SQL;
+}): DrizzleFilterOperator<TValue> {
+  return operator;
+}
+
+/**
+ * Builds a filter on a custom operator (or `$fts`) to combine with the parsed
+ * filters. zod-paginate only parses its built-in operators, so these filters
+ * can only be built by server code, never sent by a client. The value is
+ * still parsed with the operator's `value` schema when the filter is compiled.
+ *
+ * @example
+ * ```ts
+ * const regex = buildCustomFilter({ field: 'name', op: '$regex', value: '^A' });
+ * const filters: DrizzleWhereNode = parsed.filters
+ *   ? { type: 'and', items: [parsed.filters, regex] }
+ *   : regex;
+ * const query = generatePaginationQuery({ ...parsed, filters }, { ...config, filterOperators });
+ * ```
+ */
+export function buildCustomFilter(filter: {
+  /** Field path, as in the parsed filters (e.g. `"name"`, `"posts.title"`). */
+  field: string;
+  /** Name of the operator, registered in `filterOperators` (or `"$fts"`). */
+  op: `$${string}`;
+  value: unknown;
+  not?: boolean;
+}): DrizzleWhereNode {
+  if (BUILT_IN_FILTER_OPERATORS.has(filter.op)) {
+    throw new DrizzlePaginationError(
+      `buildCustomFilter does not build built-in operators (got "${filter.op}")`,
+    );
+  }
+  const condition: DrizzleCustomCondition = {
+    group: filter.field,
+    op: filter.op,
+    value: filter.value,
   };
+  if (filter.not) condition.not = true;
+  return { type: 'filter', field: filter.field, condition };
+}
+
+/**
+ * Parses the value of a custom filter operator with its `value` schema.
+ */
+function parseFilterValue(name: string, operator: DrizzleFilterOperator, value: unknown): unknown {
+  const result = operator.value.safeParse(value);
+  if (result.success) return result.data;
+  throw new InvalidFilterValueError(name, result.error.issues[0]?.message ?? 'invalid value');
 }
 
 /**
@@ -661,8 +1938,80 @@ function buildSelectShapeInternal<TSchema extends DataSchema, TColumn>(
 
 /**
  * Converts a validated pagination condition into a Drizzle where expression.
+ * Custom operators of the set are consulted before the built-in ones.
  */
 function conditionToDrizzleExpr<TColumn, TWhereExpr, TOrderByExpr>(
+  condition: DrizzleCondition,
+  column: TColumn,
+  operators: DrizzleOperatorSet<TColumn, TWhereExpr, TOrderByExpr>,
+): TWhereExpr {
+  const expression = operatorConditionToDrizzleExpr(condition, column, operators);
+
+  if (condition.not) return operators.not(expression);
+  return expression;
+}
+
+/** Name of the full-text search operator. */
+const FULL_TEXT_OPERATOR = '$fts';
+
+/** Operators of zod-paginate's `Condition`. */
+const BUILT_IN_FILTER_OPERATORS: ReadonlySet<string> = new Set<Condition['op']>([
+  '$null',
+  '$eq',
+  '$in',
+  '$contains',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$btw',
+  '$ilike',
+  '$sw',
+]);
+
+/** Tells a condition on one of zod-paginate's built-in operators. */
+function isBuiltInCondition(condition: DrizzleCondition): condition is Condition {
+  return BUILT_IN_FILTER_OPERATORS.has(condition.op);
+}
+
+/**
+ * Converts a condition into a Drizzle where expression, without its `not`
+ * modifier: custom operators first, then `$fts`, then the built-in ones.
+ */
+function operatorConditionToDrizzleExpr<TColumn, TWhereExpr, TOrderByExpr>(
+  condition: DrizzleCondition,
+  column: TColumn,
+  operators: DrizzleOperatorSet<TColumn, TWhereExpr, TOrderByExpr>,
+): TWhereExpr {
+  const { op } = condition;
+  const value = 'value' in condition ? condition.value : undefined;
+
+  const customOperator = operators.custom?.[op];
+  if (customOperator) return customOperator(column, value);
+
+  if (op === FULL_TEXT_OPERATOR) {
+    if (!operators.fts) {
+      throw new Error(
+        'Operator "$fts" is present but no "fts" function is provided in the Drizzle operator set',
+      );
+    }
+    if (typeof value !== 'string') {
+      throw new InvalidFilterValueError(FULL_TEXT_OPERATOR, 'expected a string');
+    }
+    return operators.fts(column, value);
+  }
+
+  if (!isBuiltInCondition(condition)) {
+    throw new Error(`Unsupported operator in condition: ${JSON.stringify(condition)}`);
+  }
+  return builtInConditionToDrizzleExpr(condition, column, operators);
+}
+
+/**
+ * Converts a condition on one of zod-paginate's built-in operators into a
+ * Drizzle where expression, without its `not` modifier.
+ */
+function builtInConditionToDrizzleExpr<TColumn, TWhereExpr, TOrderByExpr>(
   condition: Condition,
   column: TColumn,
   operators: DrizzleOperatorSet<TColumn, TWhereExpr, TOrderByExpr>,
@@ -729,7 +2078,6 @@ function conditionToDrizzleExpr<TColumn, TWhereExpr, TOrderByExpr>(
     }
   }
 
-  if (condition.not) return operators.not(expression);
   return expression;
 }
 
@@ -737,7 +2085,7 @@ function conditionToDrizzleExpr<TColumn, TWhereExpr, TOrderByExpr>(
  * Recursively converts a validated where tree into Drizzle expressions.
  */
 function whereNodeToDrizzleExpr<TSchema extends DataSchema, TColumn, TWhereExpr, TOrderByExpr>(
-  node: WhereNode,
+  node: DrizzleWhereNode,
   fields: DrizzleFieldMap<TSchema, TColumn>,
   operators: DrizzleOperatorSet<TColumn, TWhereExpr, TOrderByExpr>,
   strictFieldMapping: boolean,
@@ -770,54 +2118,254 @@ function directionToOrderExpr<TColumn, TOrderByExpr>(
   return direction === 'ASC' ? operators.asc(column) : operators.desc(column);
 }
 
+/** A single column of the keyset used by cursor pagination. */
+interface CursorKey<TColumn> {
+  property: string;
+  column: TColumn;
+  direction: SortDirection;
+  /** Column typing the cursor value when `column` is an SQL expression. */
+  valueColumn?: Column;
+  /** "Is null" flag of a nullable key, which may carry a `null` cursor value. */
+  nullFlag?: SQL;
+}
+
 /**
- * Builds Drizzle-ready select, where, order, limit and offset clauses from parsed pagination.
+ * Resolves the keyset for cursor pagination: every mapped `sortBy` item, then
+ * `cursorProperty` as a unique tiebreaker when it is not already sorted on.
+ * The tiebreaker follows the direction of the last sort item (`ASC` when
+ * there is none).
  */
-function buildDrizzleClausesFromPagination<
-  TSchema extends DataSchema,
-  TColumn,
-  TWhereExpr,
-  TOrderByExpr,
->(
-  pagination: PaginationPayload<TSchema>,
-  config: BuildDrizzleClausesConfig<TSchema, TColumn, TWhereExpr, TOrderByExpr>,
-): DrizzlePaginationClauses<TColumn, TWhereExpr, TOrderByExpr> {
-  const strictFieldMapping = config.strictFieldMapping ?? true;
-  const aliasBuilder = config.selectAlias ?? defaultSelectAlias;
-
-  const select = buildSelectShapeInternal(
-    pagination.select ? pagination.select.map((fieldPath) => `${fieldPath}`) : [],
-    config.fields,
-    strictFieldMapping,
-    aliasBuilder,
-  );
+function resolveCursorKeys<TSchema extends DataSchema, TColumn>(
+  sortBy: PaginationPayload<TSchema>['sortBy'],
+  cursorProperty: string,
+  fields: DrizzleFieldMap<TSchema, TColumn>,
+  strictFieldMapping: boolean,
+  valueColumns: Partial<Record<string, Column>> = {},
+  nullFlags: Partial<Record<string, SQL>> = {},
+): CursorKey<TColumn>[] {
+  const keys: CursorKey<TColumn>[] = [];
+
+  for (const sortItem of sortBy ?? []) {
+    const property = `${sortItem.property}`;
+    const column = getMappedColumn(property, fields, strictFieldMapping);
+    if (!column) continue;
+    keys.push({
+      property,
+      column,
+      direction: sortItem.direction,
+      valueColumn: valueColumns[property],
+      nullFlag: nullFlags[property] ?? buildCursorNullFlag(column),
+    });
+  }
 
-  let where = pagination.filters
-    ? whereNodeToDrizzleExpr(
-        pagination.filters,
-        config.fields,
-        config.operators,
-        strictFieldMapping,
-      )
-    : undefined;
+  if (!keys.some((key) => key.property === cursorProperty)) {
+    const column = getMappedColumn(cursorProperty, fields, strictFieldMapping);
+    if (column) {
+      const direction = keys[keys.length - 1]?.direction ?? 'ASC';
+      keys.push({
+        property: cursorProperty,
+        column,
+        direction,
+        nullFlag: buildCursorNullFlag(column),
+      });
+    }
+  }
 
-  const orderBy = pagination.sortBy
-    ?.map((sortItem) => {
-      const mappedColumn = getMappedColumn(
-        `${sortItem.property}`,
-        config.fields,
-        strictFieldMapping,
-      );
-      if (!mappedColumn) return undefined;
-      return directionToOrderExpr(sortItem.direction, mappedColumn, config.operators);
-    })
-    .filter((orderExpression): orderExpression is TOrderByExpr => Boolean(orderExpression));
+  return keys;
+}
+
+/**
+ * Builds the `1` / `0` "is null" flag of a keyset field that can be NULL: a
+ * column not declared `notNull`, or a computed field. Other SQL expressions
+ * are taken as never NULL.
+ */
+function buildCursorNullFlag(field: unknown): SQL | undefined {
+  const nullable = drizzleIs(field, Column)
+    ? !field.notNull
+    : computedFieldDataType(field) !== undefined;
+  return nullable ? sql<number>`case when ${field} is null then 1 else 0 end` : undefined;
+}
+
+/**
+ * Restores a cursor value that lost its type through JSON serialization
+ * (dates and bigints travel as strings). Throws `InvalidCursorError` when the
+ * string is not a valid date or integer.
+ */
+function reviveCursorValue(property: string, column: unknown, value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const dataType =
+    computedFieldDataType(column) ?? (drizzleIs(column, Column) ? column.dataType : undefined);
+  if (dataType === 'date') {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new InvalidCursorError(`Cursor token has an invalid date for "${property}"`);
+    }
+    return date;
+  }
+  if (dataType === 'bigint') {
+    if (!/^-?\d+$/.test(value)) {
+      throw new InvalidCursorError(`Cursor token has an invalid integer for "${property}"`);
+    }
+    return BigInt(value);
+  }
+  return value;
+}
+
+/**
+ * Decodes the incoming cursor token and returns one value per keyset column.
+ * Values of SQL-expression keys are bound with their value column, which
+ * encodes them like the column they were read from.
+ * Throws `InvalidCursorError` when the token is malformed, forged, misses
+ * a keyset column (e.g. it was issued for a different `sortBy`) or carries a
+ * value that is not a string, number or boolean — or `null`, for the keys
+ * that can be NULL (see `buildCursorNullFlag`).
+ */
+function readCursorValues<TColumn>(
+  cursor: number | string,
+  keys: CursorKey<TColumn>[],
+  codec: DrizzleCursorCodec,
+): { direction: CursorDirection; values: unknown[] } {
+  const { values, direction = 'after' } = codec.decode(String(cursor));
+
+  return {
+    direction,
+    values: keys.map((key) => {
+      if (!(key.property in values)) {
+        throw new InvalidCursorError(`Cursor token has no value for "${key.property}"`);
+      }
+      // Unsigned tokens are client input: only scalars may reach the query.
+      const value = values[key.property];
+      if (value === null && key.nullFlag !== undefined) return null;
+      if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+        throw new InvalidCursorError(`Cursor token has an invalid value for "${key.property}"`);
+      }
+      if (key.valueColumn) {
+        return sql.param(reviveCursorValue(key.property, key.valueColumn, value), key.valueColumn);
+      }
+      return reviveCursorValue(key.property, key.column, value);
+    }),
+  };
+}
+
+/** Returns the opposite sort direction. */
+function invertDirection(direction: SortDirection): SortDirection {
+  return direction === 'ASC' ? 'DESC' : 'ASC';
+}
+
+/**
+ * Puts the "is null" flag of every nullable key before it, as a key sorted
+ * `ASC` in the order the rows are read in: NULLs come last, after every
+ * value. The flag's cursor value derives from the key's value.
+ */
+function expandNullableCursorKeys<TColumn>(
+  keys: CursorKey<TColumn>[],
+  values: unknown[],
+  cursorDirection: CursorDirection,
+): { keys: CursorKey<TColumn | SQL>[]; values: unknown[] } {
+  const expandedKeys: CursorKey<TColumn | SQL>[] = [];
+  const expandedValues: unknown[] = [];
+  keys.forEach((key, index) => {
+    if (key.nullFlag !== undefined) {
+      expandedKeys.push({
+        property: key.property,
+        column: key.nullFlag,
+        direction: cursorDirection === 'before' ? 'DESC' : 'ASC',
+      });
+      if (index < values.length) expandedValues.push(values[index] === null ? 1 : 0);
+    }
+    expandedKeys.push(key);
+    if (index < values.length) expandedValues.push(values[index]);
+  });
+  return { keys: expandedKeys, values: expandedValues };
+}
+
+/**
+ * Builds the keyset predicate "row comes after the cursor" as an OR-chain:
+ * `(a > ?) OR (a = ? AND b > ?) OR (a = ? AND b = ? AND id > ?)`.
+ * Each column compares with `>` when sorted `ASC` and `<` when sorted `DESC`,
+ * so mixed directions are handled. Keys must already carry the direction
+ * the rows are read in (inverted for `'before'` cursors). A `null` value
+ * (of a nullable key) matches with `IS NULL` and has no row after it.
+ */
+function buildKeysetPredicate<TColumn, TWhereExpr, TOrderByExpr>(
+  keys: CursorKey<TColumn>[],
+  values: unknown[],
+  operators: DrizzleOperatorSet<TColumn, TWhereExpr, TOrderByExpr>,
+): TWhereExpr | undefined {
+  if (values.length === 0) return undefined;
+
+  const branches = keys.flatMap((key, index) => {
+    const value = values[index];
+    // NULLs sort last within their flag: no row of the same flag follows.
+    if (value === null) return [];
+    const comparison =
+      key.direction === 'DESC' ? operators.lt(key.column, value) : operators.gt(key.column, value);
+    if (index === 0) return [comparison];
+
+    const equalities = keys.slice(0, index).map((previous, previousIndex) => {
+      const previousValue = values[previousIndex];
+      return previousValue === null
+        ? operators.isNull(previous.column)
+        : operators.eq(previous.column, previousValue);
+    });
+    return [operators.and(...equalities, comparison)];
+  });
+
+  if (branches.length === 0) return undefined;
+  if (branches.length === 1) return branches[0];
+  return operators.or(...branches);
+}
+
+/**
+ * Builds Drizzle-ready select, where, order, limit and offset clauses from parsed pagination.
+ */
+function buildDrizzleClausesFromPagination<
+  TSchema extends DataSchema,
+  TColumn,
+  TWhereExpr,
+  TOrderByExpr,
+>(
+  pagination: DrizzlePaginationPayload<TSchema>,
+  config: BuildDrizzleClausesConfig<TSchema, TColumn, TWhereExpr, TOrderByExpr>,
+): DrizzlePaginationClauses<TColumn, TWhereExpr, TOrderByExpr> {
+  const strictFieldMapping = config.strictFieldMapping ?? true;
+  const aliasBuilder = config.selectAlias ?? defaultSelectAlias;
+
+  const select = buildSelectShapeInternal(
+    pagination.select ? pagination.select.map((fieldPath) => `${fieldPath}`) : [],
+    config.fields,
+    strictFieldMapping,
+    aliasBuilder,
+  );
+
+  let where = pagination.filters
+    ? whereNodeToDrizzleExpr(
+        pagination.filters,
+        config.fields,
+        config.operators,
+        strictFieldMapping,
+      )
+    : undefined;
+
+  let orderBy = (pagination.sortBy ?? [])
+    .map((sortItem) => {
+      const mappedColumn = getMappedColumn(
+        `${sortItem.property}`,
+        config.fields,
+        strictFieldMapping,
+      );
+      if (!mappedColumn) return undefined;
+      return directionToOrderExpr(sortItem.direction, mappedColumn, config.operators);
+    })
+    .filter((orderExpression): orderExpression is TOrderByExpr => Boolean(orderExpression));
 
   const limit = pagination.limit;
 
   let offset: number | undefined;
   let cursor: number | string | undefined;
   let cursorProperty: string | undefined;
+  let cursorProperties: string[] | undefined;
+  let cursorDirection: CursorDirection | undefined;
 
   if (pagination.type === 'LIMIT_OFFSET' && typeof pagination.page === 'number') {
     const safePage = pagination.page > 0 ? pagination.page : 1;
@@ -828,33 +2376,56 @@ function buildDrizzleClausesFromPagination<
   if (pagination.type === 'CURSOR') {
     cursorProperty = `${pagination.cursorProperty}`;
 
+    const cursorKeys = resolveCursorKeys(
+      pagination.sortBy,
+      cursorProperty,
+      config.fields,
+      strictFieldMapping,
+      config.cursorValueColumns,
+      config.cursorNullFlags,
+    );
+    cursorProperties = cursorKeys.map((key) => key.property);
+
+    let cursorValues: unknown[] = [];
+    cursorDirection = 'after';
     if (pagination.cursor !== undefined) {
       cursor = pagination.cursor;
-      const cursorColumn = getMappedColumn(cursorProperty, config.fields, strictFieldMapping);
-
-      if (cursorColumn) {
-        // Determine direction from sortBy: if the cursor property has DESC → use "<", else ">".
-        const cursorSort = pagination.sortBy?.find((s) => `${s.property}` === cursorProperty);
-        const cursorDirection = cursorSort?.direction ?? 'ASC';
-        const cursorExpr =
-          cursorDirection === 'DESC'
-            ? config.operators.lt(cursorColumn, cursor)
-            : config.operators.gt(cursorColumn, cursor);
-
-        // Combine with existing where clause.
-        where = where ? config.operators.and(where, cursorExpr) : cursorExpr;
-      }
+      ({ direction: cursorDirection, values: cursorValues } = readCursorValues(
+        cursor,
+        cursorKeys,
+        config.cursorCodec ?? createCursorCodec(),
+      ));
+    }
+
+    // Reading backwards walks the keyset in the opposite order.
+    const readKeys = cursorKeys.map((key) =>
+      cursorDirection === 'before' ? { ...key, direction: invertDirection(key.direction) } : key,
+    );
+    const keyset = expandNullableCursorKeys(readKeys, cursorValues, cursorDirection);
+
+    // ORDER BY follows the keyset so that the tiebreaker is always included.
+    orderBy = keyset.keys.map((key) =>
+      directionToOrderExpr(key.direction, key.column, config.operators),
+    );
+
+    const cursorExpr = buildKeysetPredicate(keyset.keys, keyset.values, config.operators);
+
+    // Combine with existing where clause.
+    if (cursorExpr) {
+      where = where ? config.operators.and(where, cursorExpr) : cursorExpr;
     }
   }
 
   return {
     select,
     where,
-    orderBy: orderBy && orderBy.length > 0 ? orderBy : undefined,
+    orderBy: orderBy.length > 0 ? orderBy : undefined,
     limit,
     offset,
     cursor,
     cursorProperty,
+    cursorProperties,
+    cursorDirection,
   };
 }
 
@@ -863,9 +2434,169 @@ function buildDrizzleClausesFromPagination<
  */
 function getOperatorsForDialect(dialect: DrizzleDialect): DrizzleSqlOperatorSet {
   if (dialect === 'pg') return createPgDrizzleOperators();
+  if (dialect === 'sqlite') return createSqliteDrizzleOperators();
   return createMySqlDrizzleOperators();
 }
 
+/**
+ * Resolves the operator set of a config — `operators` or the dialect
+ * default — extended with its custom `filterOperators` and with the
+ * `fullTextSearch` languages of its fields.
+ */
+function resolveOperators(
+  config: {
+    dialect: DrizzleDialect;
+    operators?: DrizzleSqlOperatorSet;
+    filterOperators?: DrizzleFilterOperators;
+    fullTextSearch?: DrizzleFullTextSearchConfig;
+  },
+  fields: DrizzleFieldMap<DataSchema, DrizzleSqlColumn>,
+  relations: readonly AnyDrizzleRelation[] = [],
+): DrizzleSqlOperatorSet {
+  const operators: DrizzleSqlOperatorSet = {
+    ...(config.operators ?? getOperatorsForDialect(config.dialect)),
+  };
+
+  if (config.filterOperators) {
+    const custom: Record<string, (column: DrizzleSqlColumn, value: unknown) => SQL> = {
+      ...operators.custom,
+    };
+    for (const [name, operator] of Object.entries(config.filterOperators)) {
+      custom[name] = (column, value): SQL =>
+        operator.compile(column, parseFilterValue(name, operator, value), config.dialect);
+    }
+    operators.custom = custom;
+  }
+
+  // JSON fields compile `$contains` against their own JSON array.
+  const contains = operators.contains;
+  operators.contains = (column, values): SQL => {
+    const jsonContains = drizzleIs(column, SQL) ? computedFields.get(column)?.contains : undefined;
+    if (jsonContains) return jsonContains(values);
+    if (!contains) {
+      throw new Error(
+        'Operator "$contains" is present but no "contains" function is provided in the Drizzle operator set',
+      );
+    }
+    return contains(column, values);
+  };
+
+  // Operators receive columns, not field paths: look the languages up by
+  // column, so field paths sharing a column must agree on its language.
+  const fts = operators.fts;
+  const languages = new Map<unknown, { fieldPath: string; language: string }>();
+  for (const [fieldPath, language] of Object.entries(config.fullTextSearch?.languages ?? {})) {
+    const column = resolveFieldColumn(fieldPath, fields, relations);
+    if (!column || language === undefined) continue;
+    const existing = languages.get(column);
+    if (existing && existing.language !== language) {
+      throw new DrizzlePaginationError(
+        `fullTextSearch.languages gives "${existing.fieldPath}" and "${fieldPath}" different languages, but they map to the same column`,
+      );
+    }
+    languages.set(column, { fieldPath, language });
+  }
+  if (fts && languages.size > 0) {
+    operators.fts = (column, query): SQL => fts(column, query, languages.get(column)?.language);
+  }
+
+  return operators;
+}
+
+/**
+ * Finds the column of a field path among the main fields and, for
+ * relation-prefixed paths, the fields of the (nested) relations.
+ */
+function resolveFieldColumn(
+  fieldPath: string,
+  fields: DrizzleFieldMap<DataSchema, DrizzleSqlColumn>,
+  relations: readonly AnyDrizzleRelation[],
+): DrizzleSqlColumn | undefined {
+  const column = fields[fieldPath];
+  if (column) return column;
+  for (const relation of relations) {
+    const relationPath = stripRelationPrefix(fieldPath, relation.relationName);
+    if (relationPath === undefined) continue;
+    const nestedRelations = expandMorphTargets(relation.relations ?? []);
+    const relationColumn = resolveFieldColumn(relationPath, relation.fields, nestedRelations);
+    if (relationColumn) return relationColumn;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the query of the first non-negated `$fts` filter on a field path.
+ */
+function findFullTextQuery(
+  node: DrizzleWhereNode | undefined,
+  fieldPath: string,
+): string | undefined {
+  if (!node) return undefined;
+  if (node.type !== 'filter') {
+    for (const item of node.items) {
+      const query = findFullTextQuery(item, fieldPath);
+      if (query !== undefined) return query;
+    }
+    return undefined;
+  }
+  const { condition } = node;
+  if (node.field !== fieldPath || condition.op !== FULL_TEXT_OPERATOR || condition.not) {
+    return undefined;
+  }
+  const value = 'value' in condition ? condition.value : undefined;
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Builds the `fullTextSearch` relevance scores of a query, keyed by score
+ * name, from the `$fts` filters on their fields.
+ */
+function buildFullTextScoreFields(
+  config: { dialect: DrizzleDialect; fullTextSearch?: DrizzleFullTextSearchConfig },
+  fields: DrizzleFieldMap<DataSchema, DrizzleSqlColumn>,
+  filters: DrizzleWhereNode | undefined,
+): Record<string, SQL<number | null>> {
+  const scoreFields: Record<string, SQL<number | null>> = {};
+  for (const [scoreName, fieldPath] of Object.entries(config.fullTextSearch?.scores ?? {})) {
+    if (fieldPath === undefined) continue;
+    const column = fields[fieldPath];
+    if (!column) {
+      throw new DrizzlePaginationError(
+        `Full-text score "${scoreName}" ranks field "${fieldPath}", which has no mapping in fields`,
+      );
+    }
+    const query = findFullTextQuery(filters, fieldPath);
+    scoreFields[scoreName] =
+      query === undefined
+        ? sql<number | null>`null`
+        : buildFullTextScore(
+            config.dialect,
+            column,
+            query,
+            config.fullTextSearch?.languages?.[fieldPath],
+          );
+  }
+  return scoreFields;
+}
+
+/** Relevance of a column for a full-text query, in the given dialect. */
+function buildFullTextScore(
+  dialect: DrizzleDialect,
+  column: DrizzleSqlColumn,
+  query: string,
+  language: string | undefined,
+): SQL<number | null> {
+  if (dialect === 'pg') {
+    return sql<number>`ts_rank(${pgTsVector(column, language)}, ${pgTsQuery(query, language)})`.mapWith(
+      Number,
+    );
+  }
+  if (dialect === 'mysql') {
+    return sql<number>`${mysqlFullTextSearch(column, query)}`.mapWith(Number);
+  }
+  throw new DrizzlePaginationError('Full-text scores are not supported by the "sqlite" dialect');
+}
+
 /**
  * Applies generated Drizzle pagination clauses to an existing Drizzle query builder.
  */
@@ -874,28 +2605,39 @@ export function applyDrizzlePaginationOnQuery<
   TColumn extends DrizzleSqlColumn,
   TFields extends Record<string, TColumn>,
 >(
-  parsed: PaginationPayload<TSchema>,
+  parsed: DrizzlePaginationPayload<TSchema>,
   config: {
     dialect: DrizzleDialect;
     buildQuery: (
-      selectShape: DrizzleSelectShape<NoInfer<TColumn>>,
+      selectShape: DrizzleSelectShape<NoInfer<TColumn> | SQL>,
     ) => DrizzleAutoQuery<InferFieldsData<NoInfer<TFields>>[]>;
     fields: TFields & DrizzleFieldMap<TSchema, TColumn>;
     strictFieldMapping?: boolean;
     selectAlias?: (fieldPath: string) => string;
     operators?: DrizzleSqlOperatorSet;
+    filterOperators?: DrizzleFilterOperators;
+    fullTextSearch?: DrizzleFullTextSearchConfig;
+    cursorCodec?: DrizzleCursorCodec;
   },
 ): {
   query: DrizzleDynamicQuery<InferFieldsData<TFields>[]>;
-  clauses: DrizzlePaginationClauses<TColumn, SQL, SQL>;
+  clauses: DrizzlePaginationClauses<TColumn | SQL, SQL, SQL>;
 } {
-  const operators = config.operators ?? getOperatorsForDialect(config.dialect);
+  const fieldMap: DrizzleFieldMap<DataSchema, DrizzleSqlColumn> = config.fields;
+  assertJsonFieldDialects(config.dialect, fieldMap, []);
+  const operators = resolveOperators(config, fieldMap);
+  // Full-text scores are selectable and sortable like the mapped fields.
+  const fields: DrizzleFieldMap<TSchema, TColumn | SQL> = {
+    ...config.fields,
+    ...buildFullTextScoreFields(config, fieldMap, parsed.filters),
+  };
 
-  const clauses = buildDrizzleClausesFromPagination<TSchema, TColumn, SQL, SQL>(parsed, {
-    fields: config.fields,
+  const clauses = buildDrizzleClausesFromPagination<TSchema, TColumn | SQL, SQL, SQL>(parsed, {
+    fields,
     operators,
     selectAlias: config.selectAlias,
     strictFieldMapping: config.strictFieldMapping,
+    cursorCodec: config.cursorCodec,
   });
 
   let query = config.buildQuery(clauses.select).$dynamic();
@@ -955,6 +2697,65 @@ function buildPkAliases(relationName: string, parentKeys: unknown[]): string | s
   return aliases;
 }
 
+/** Alias of the parent-row type column read by `defineMorphTo` targets. */
+function buildTypeAlias(relationName: string): string {
+  return `__type_${relationName}`;
+}
+
+/** The type value(s) of a polymorphic relation, as an array. */
+function discriminatorValues(
+  discriminator: DrizzleRelationDiscriminator<DrizzleSqlColumn>,
+): readonly RelationDiscriminatorValue[] {
+  return typeof discriminator.value === 'object' ? discriminator.value : [discriminator.value];
+}
+
+/**
+ * Whether the discriminator of a relation is on the parent row — the case of
+ * the `belongsTo` targets of `defineMorphTo` — rather than the related rows.
+ */
+function hasParentDiscriminator(relation: AnyDrizzleRelation): boolean {
+  return relation.discriminator !== undefined && relation.kind === 'belongsTo';
+}
+
+/**
+ * Builds `type = value` (or `type in (…)`) for the discriminator of a
+ * polymorphic relation, or `undefined` when it has none.
+ */
+function buildRelationDiscriminator(relation: AnyDrizzleRelation): SQL | undefined {
+  if (!relation.discriminator) return undefined;
+  const { column } = relation.discriminator;
+  const values = discriminatorValues(relation.discriminator);
+  const [firstValue] = values;
+  // eq / inArray are dialect-independent.
+  const operators = createPgDrizzleOperators();
+  return values.length === 1 && firstValue !== undefined
+    ? operators.eq(column, firstValue)
+    : operators.inArray(column, values);
+}
+
+/**
+ * Adds the parent key column(s) of a relation to the parent select shape,
+ * plus the type column of `defineMorphTo` targets, so the relation can be
+ * scoped and assembled.
+ */
+function addParentKeysToSelect(
+  selectShape: DrizzleSelectShape<DrizzleSqlColumn>,
+  relation: AnyDrizzleRelation,
+): void {
+  const parentKeys = toArray(relation.parentKey);
+  const pkAliases = collectAliases(buildPkAliases(relation.relationName, parentKeys));
+  for (let i = 0; i < parentKeys.length; i++) {
+    const alias = pkAliases[i];
+    const col = parentKeys[i];
+    if (alias !== undefined && col !== undefined) {
+      selectShape[alias] = col;
+    }
+  }
+  if (relation.discriminator && hasParentDiscriminator(relation)) {
+    selectShape[buildTypeAlias(relation.relationName)] = relation.discriminator.column;
+  }
+}
+
 /**
  * Builds a composite lookup key from multiple values.
  * Single value → used directly, composite → JSON-serialized tuple.
@@ -1006,7 +2807,10 @@ function belongsToAnyRelation(fieldPath: string, relationNames: string[]): boole
  * to a given relation prefix (stripping the prefix from field names).
  * Returns `undefined` when no filter in the subtree matches.
  */
-function rewriteWhereNodeForRelation(node: WhereNode, relationName: string): WhereNode | undefined {
+function rewriteWhereNodeForRelation(
+  node: DrizzleWhereNode,
+  relationName: string,
+): DrizzleWhereNode | undefined {
   if (node.type === 'filter') {
     const subPath = stripRelationPrefix(node.field, relationName);
     if (subPath === undefined) return undefined;
@@ -1015,7 +2819,7 @@ function rewriteWhereNodeForRelation(node: WhereNode, relationName: string): Whe
 
   const rewrittenItems = node.items
     .map((child) => rewriteWhereNodeForRelation(child, relationName))
-    .filter((child): child is WhereNode => child !== undefined);
+    .filter((child): child is DrizzleWhereNode => child !== undefined);
 
   if (rewrittenItems.length === 0) return undefined;
   if (rewrittenItems.length === 1) return rewrittenItems[0];
@@ -1029,16 +2833,16 @@ function rewriteWhereNodeForRelation(node: WhereNode, relationName: string): Whe
  * Returns `undefined` when all filters were stripped.
  */
 function rewriteWhereNodeWithoutRelations(
-  node: WhereNode,
+  node: DrizzleWhereNode,
   relationNames: string[],
-): WhereNode | undefined {
+): DrizzleWhereNode | undefined {
   if (node.type === 'filter') {
     return belongsToAnyRelation(node.field, relationNames) ? undefined : node;
   }
 
   const keptItems = node.items
     .map((child) => rewriteWhereNodeWithoutRelations(child, relationNames))
-    .filter((child): child is WhereNode => child !== undefined);
+    .filter((child): child is DrizzleWhereNode => child !== undefined);
 
   if (keptItems.length === 0) return undefined;
   if (keptItems.length === 1) return keptItems[0];
@@ -1046,252 +2850,1593 @@ function rewriteWhereNodeWithoutRelations(
   return { ...node, items: keptItems };
 }
 
+/** Lists the field paths of a filter tree. */
+function collectFilterFields(node: DrizzleWhereNode): string[] {
+  if (node.type === 'filter') return [node.field];
+  return node.items.flatMap(collectFilterFields);
+}
+
+/**
+ * Splits the `or` groups mixing fields of several scopes (the main table and
+ * relations) out of a filter tree. Such groups can only sit under `and`
+ * groups — an enclosing `or` would be mixed too — so the remaining tree
+ * ANDed with the extracted groups is equivalent to the original.
+ */
+function extractMixedScopeOrGroups(
+  node: DrizzleWhereNode,
+  relationNames: string[],
+): { filters: DrizzleWhereNode | undefined; mixedGroups: DrizzleWhereNode[] } {
+  if (node.type === 'filter') return { filters: node, mixedGroups: [] };
+
+  if (node.type === 'or') {
+    const scopes = new Set(
+      collectFilterFields(node).map(
+        (fieldPath) =>
+          relationNames.find((name) => stripRelationPrefix(fieldPath, name) !== undefined) ?? '',
+      ),
+    );
+    return scopes.size > 1
+      ? { filters: undefined, mixedGroups: [node] }
+      : { filters: node, mixedGroups: [] };
+  }
+
+  const parts = node.items.map((item) => extractMixedScopeOrGroups(item, relationNames));
+  const keptItems = parts
+    .map((part) => part.filters)
+    .filter((item): item is DrizzleWhereNode => item !== undefined);
+  const mixedGroups = parts.flatMap((part) => part.mixedGroups);
+
+  if (keptItems.length === 0) return { filters: undefined, mixedGroups };
+  if (keptItems.length === 1) return { filters: keptItems[0], mixedGroups };
+  return { filters: { ...node, items: keptItems }, mixedGroups };
+}
+
+/**
+ * Builds the `or` group matching the global `search` value against every
+ * searchable field, or `undefined` when the value is blank.
+ */
+function buildSearchFilter(
+  search: string | undefined,
+  searchableFields: readonly DrizzleSearchableField[] | undefined,
+): DrizzleWhereNode | undefined {
+  const value = search?.trim();
+  if (!value) return undefined;
+  if (!searchableFields || searchableFields.length === 0) {
+    throw new DrizzlePaginationError('search requires searchableFields');
+  }
+  return {
+    type: 'or',
+    items: searchableFields.map((searchableField): DrizzleWhereNode => {
+      const { field, match } =
+        typeof searchableField === 'string'
+          ? { field: searchableField, match: 'ilike' }
+          : searchableField;
+      const condition: DrizzleCondition =
+        match === 'fts'
+          ? { group: field, op: FULL_TEXT_OPERATOR, value }
+          : { group: field, op: '$ilike', value };
+      return { type: 'filter', field, condition };
+    }),
+  };
+}
+
+/**
+ * Compiles a mixed-scope filter group into a single main-query predicate:
+ * main-table conditions as usual, relation conditions as `EXISTS` /
+ * `NOT EXISTS` subqueries (see `buildRelationParentFilter`).
+ */
+function buildMixedScopeFilter(
+  node: DrizzleWhereNode,
+  mainFields: DrizzleFieldMap<DataSchema, DrizzleSqlColumn>,
+  relations: readonly AnyDrizzleRelation[],
+  operators: DrizzleSqlOperatorSet,
+  strictFieldMapping: boolean,
+): SQL | undefined {
+  if (node.type === 'filter') {
+    const relation = relations.find(
+      (candidate) => stripRelationPrefix(node.field, candidate.relationName) !== undefined,
+    );
+    if (!relation) {
+      return whereNodeToDrizzleExpr(node, mainFields, operators, strictFieldMapping);
+    }
+    const relationFilter = rewriteWhereNodeForRelation(node, relation.relationName);
+    const nestedNames = (relation.relations ?? []).map((nested) => nested.relationName);
+    if (
+      relationFilter?.type === 'filter' &&
+      belongsToAnyRelation(relationFilter.field, nestedNames)
+    ) {
+      throw new DrizzlePaginationError(
+        `Nested relation field "${node.field}" cannot be used in an or group with other scopes`,
+      );
+    }
+    return relationFilter
+      ? buildRelationParentFilter(relationFilter, relation, operators, strictFieldMapping)
+      : undefined;
+  }
+
+  const parts = node.items
+    .map((item) =>
+      buildMixedScopeFilter(item, mainFields, relations, operators, strictFieldMapping),
+    )
+    .filter((part): part is SQL => part !== undefined);
+  if (parts.length === 0) return undefined;
+  return node.type === 'and' ? andSql(...parts) : orSql(...parts);
+}
+
+/** Select alias of the `count(*) over()` column added by `count: 'window'`. */
+const WINDOW_COUNT_ALIAS = '__total_count';
+
+/**
+ * Reads the window count from the first row and strips the internal alias
+ * from every row. `totalItems` is `undefined` when the page is empty.
+ */
+function extractWindowCount(rows: Record<string, unknown>[]): {
+  totalItems: number | undefined;
+  rows: Record<string, unknown>[];
+} {
+  const rawCount = rows[0]?.[WINDOW_COUNT_ALIAS];
+  return {
+    totalItems: rawCount === undefined || rawCount === null ? undefined : Number(rawCount),
+    rows: rows.map((row) => {
+      const cleanRow: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(row)) {
+        if (key !== WINDOW_COUNT_ALIAS) cleanRow[key] = value;
+      }
+      return cleanRow;
+    }),
+  };
+}
+
+/** Inputs of `executeCountQuery`, resolved from `GeneratePaginationQueryConfig`. */
+interface CountQueryOptions<TColumn extends DrizzleSqlColumn> {
+  buildQuery: (selectShape: DrizzleSelectShape<TColumn>) => DrizzleAutoQuery;
+  buildCountQuery?: (countSelect: DrizzleSelectShape<SQL<number>>) => DrizzleAutoQuery;
+  strategy: DrizzleCountStrategy;
+  distinctKey: DrizzleSqlColumn[];
+  dialect: DrizzleDialect;
+  /** Main select shape, re-selected inside the `'subquery'` strategy. */
+  select: DrizzleSelectShape<TColumn>;
+}
+
+/**
+ * Builds the `count(distinct …)` expression over one or more key columns.
+ * Composite keys use a row value on PG and the multi-argument form on MySQL;
+ * SQLite only counts distinct values of a single expression.
+ */
+function buildDistinctCountExpr(dialect: DrizzleDialect, keys: DrizzleSqlColumn[]): SQL<number> {
+  if (keys.length === 1) return sql<number>`count(distinct ${keys[0]})`;
+  if (dialect === 'pg') return sql<number>`count(distinct (${sql.join(keys, sql`, `)}))`;
+  if (dialect === 'mysql') return sql<number>`count(distinct ${sql.join(keys, sql`, `)})`;
+  throw new DrizzlePaginationError(
+    'countStrategy "distinct" supports a single countDistinctKey column on SQLite; use "subquery" instead',
+  );
+}
+
 /**
- * Executes a `COUNT(*)` query using the provided `buildQuery` factory.
+ * Executes a `COUNT(*)` query using `buildCountQuery` when provided, or the
+ * `buildQuery` factory otherwise, following the configured count strategy.
  *
  * Works around the type mismatch between `TColumn`-typed `buildQuery` and
  * the `SQL` type of `sql\`count(*)\`` by leveraging the fact that Drizzle's
  * runtime `select()` accepts any column-like value.
  */
 async function executeCountQuery<TColumn extends DrizzleSqlColumn>(
-  buildQuery: (selectShape: DrizzleSelectShape<TColumn>) => DrizzleAutoQuery,
+  options: CountQueryOptions<TColumn>,
   where: SQL | undefined,
 ): Promise<number> {
-  const countSelect = { count: sql<number>`count(*)` };
-  // @ts-expect-error - Drizzle accepts SQL in select shape at runtime
-  let countQuery = buildQuery(countSelect).$dynamic();
-  if (where) {
-    countQuery = countQuery.where(where);
+  const buildCountBase = (count: SQL<number>): DrizzleDynamicQuery => {
+    const countSelect = { count };
+    if (options.buildCountQuery) return options.buildCountQuery(countSelect).$dynamic();
+    // @ts-expect-error - Drizzle accepts SQL in select shape at runtime
+    return options.buildQuery(countSelect).$dynamic();
+  };
+
+  let countQuery: DrizzleDynamicQuery;
+  if (options.strategy === 'subquery') {
+    // Alias every column so the derived table has unique column names
+    // (MySQL rejects duplicates, e.g. a parent key selected twice).
+    const innerSelect: DrizzleSelectShape<SQL.Aliased> = {};
+    for (const [alias, column] of Object.entries(options.select)) {
+      innerSelect[alias] = sql`${column}`.as(alias);
+    }
+    if (Object.keys(innerSelect).length === 0) {
+      innerSelect.__count_row = sql`1`.as('__count_row');
+    }
+
+    // The filter lives inside the subquery; the outer query only carries it.
+    // @ts-expect-error - Drizzle accepts aliased SQL in select shape at runtime
+    let innerQuery = options.buildQuery(innerSelect).$dynamic();
+    if (where) {
+      innerQuery = innerQuery.where(where);
+    }
+    if (!isSQLWrapper(innerQuery)) {
+      throw new DrizzlePaginationError(
+        'countStrategy "subquery" requires buildQuery to return a Drizzle query builder',
+      );
+    }
+    countQuery = buildCountBase(
+      sql<number>`(select count(*) from (${innerQuery}) as __count_subquery)`,
+    ).limit(1);
+  } else {
+    const count =
+      options.strategy === 'distinct'
+        ? buildDistinctCountExpr(options.dialect, options.distinctKey)
+        : sql<number>`count(*)`;
+    countQuery = buildCountBase(count);
+    if (where) {
+      countQuery = countQuery.where(where);
+    }
   }
+
   const countRows: Record<string, unknown>[] = await countQuery;
   const rawCount = countRows[0]?.count;
   return Number(rawCount ?? 0);
 }
 
 /**
- * Builds a SQL filter to scope relation queries to the parent IDs present in
- * the main query results.
- *
- * Single FK  → `foreignKey IN (id1, id2, …)`
- * Composite  → `(fk1 = v1 AND fk2 = v2) OR …`
- *
- * Returns `undefined` when no valid parent IDs are found (the relation query
- * should be skipped entirely in that case).
+ * Builds a scalar SQL expression reading the row estimate of `table` from the
+ * catalog statistics, or `undefined` when the dialect keeps none (SQLite).
  */
-function buildRelationScope(
-  mainRows: Record<string, unknown>[],
-  relationName: string,
-  parentKey: DrizzleSqlColumn | DrizzleSqlColumn[],
-  foreignKey: DrizzleSqlColumn | DrizzleSqlColumn[],
-  operators: DrizzleSqlOperatorSet,
-): SQL | undefined {
-  const parentKeys = toArray(parentKey);
-  const foreignKeys = toArray(foreignKey);
-  const pkAliases = collectAliases(buildPkAliases(relationName, parentKeys));
-
-  if (foreignKeys.length === 1) {
-    const pkAlias = pkAliases[0];
-    if (!pkAlias) return undefined;
-    const ids = new Set<unknown>();
-    for (const row of mainRows) {
-      const v = row[pkAlias];
-      if (v != null) ids.add(v);
-    }
-    if (ids.size === 0) return undefined;
-    const fk = foreignKeys[0];
-    if (!fk) return undefined;
-    return operators.inArray(fk, [...ids]);
-  }
-
-  // Composite FK: OR of AND(eq(fk_0, v_0), eq(fk_1, v_1), …)
-  const seen = new Set<string>();
-  const conditions: SQL[] = [];
-  for (const row of mainRows) {
-    const tuple = pkAliases.map((a) => row[a]);
-    if (tuple.some((v) => v == null)) continue;
-    const key = JSON.stringify(tuple);
-    if (!seen.has(key)) {
-      seen.add(key);
-      const parts = foreignKeys.map((fk, i) => operators.eq(fk, tuple[i]));
-      conditions.push(andSql(...parts));
-    }
+function buildTableRowEstimate(dialect: DrizzleDialect, table: Table): SQL | undefined {
+  const tableName = getTableName(table);
+  if (dialect === 'pg') {
+    // `getTableUniqueName` falls back to the `public` schema, like Drizzle.
+    const schema = getTableUniqueName(table).slice(0, -(tableName.length + 1));
+    return sql`(select c.reltuples::bigint from pg_class c join pg_namespace n on n.oid = c.relnamespace where n.nspname = ${schema} and c.relname = ${tableName})`;
   }
-  if (conditions.length === 0) return undefined;
-  if (conditions.length === 1) {
-    const single = conditions[0];
-    if (!single) return undefined;
-    return single;
+  if (dialect === 'mysql') {
+    return sql`(select table_rows from information_schema.tables where table_schema = database() and table_name = ${tableName})`;
   }
-  return orSql(...conditions);
+  return undefined;
+}
+
+/**
+ * Table whose row estimate stands for the total: `estimateTable`, or the
+ * table of the mapped columns when they all belong to one table. Fields
+ * spanning several (joined) tables give none.
+ */
+function resolveEstimateTable(
+  estimateTable: Table | undefined,
+  fields: Record<string, DrizzleSqlColumn>,
+): Table | undefined {
+  if (estimateTable) return estimateTable;
+  const tables = new Set(
+    Object.values(fields)
+      .filter((field): field is Column => drizzleIs(field, Column))
+      .map((column) => column.table),
+  );
+  const [table] = tables;
+  return tables.size === 1 ? table : undefined;
+}
+
+/**
+ * Reads the row estimate of the table behind the count through the
+ * `buildQuery` factory. Returns `undefined` when no estimate is available
+ * (no single table to estimate, no statistics, never-analyzed table, or
+ * empty table) so the caller can fall back to an exact count.
+ */
+async function executeEstimatedCountQuery<TColumn extends DrizzleSqlColumn>(
+  buildQuery: (selectShape: DrizzleSelectShape<TColumn>) => DrizzleAutoQuery,
+  dialect: DrizzleDialect,
+  fields: Record<string, DrizzleSqlColumn>,
+  estimateTable: Table | undefined,
+): Promise<number | undefined> {
+  const table = resolveEstimateTable(estimateTable, fields);
+  if (!table) return undefined;
+
+  const estimate = buildTableRowEstimate(dialect, table);
+  if (!estimate) return undefined;
+
+  const estimateSelect = { count: estimate };
+  // @ts-expect-error - Drizzle accepts SQL in select shape at runtime
+  const estimateQuery = buildQuery(estimateSelect).$dynamic().limit(1);
+  const estimateRows: Record<string, unknown>[] = await estimateQuery;
+  const rawEstimate = estimateRows[0]?.count;
+  if (rawEstimate === undefined || rawEstimate === null) return undefined;
+
+  // PG reports -1 for tables that were never vacuumed or analyzed.
+  const totalItems = Number(rawEstimate);
+  return Number.isFinite(totalItems) && totalItems >= 0 ? totalItems : undefined;
+}
+
+/**
+ * Collects the distinct parent key tuples of the rows (one value per parent
+ * key column), skipping rows with a `null` key, in row order. The targets of
+ * `defineMorphTo` only collect the rows of their type.
+ */
+function collectParentKeyTuples(
+  rows: Record<string, unknown>[],
+  relation: AnyDrizzleRelation,
+): unknown[][] {
+  const pkAliases = collectAliases(
+    buildPkAliases(relation.relationName, toArray(relation.parentKey)),
+  );
+  const typeAlias = buildTypeAlias(relation.relationName);
+  const types =
+    relation.discriminator && hasParentDiscriminator(relation)
+      ? discriminatorValues(relation.discriminator)
+      : undefined;
+  const seen = new Set<string>();
+  const tuples: unknown[][] = [];
+  for (const row of rows) {
+    if (types && !types.some((type) => type === row[typeAlias])) continue;
+    const tuple = pkAliases.map((alias) => row[alias]);
+    if (tuple.length === 0 || tuple.some((value) => value == null)) continue;
+    const key = JSON.stringify(
+      tuple.map((value) => (typeof value === 'bigint' ? value.toString() : value)),
+    );
+    if (seen.has(key)) continue;
+    seen.add(key);
+    tuples.push(tuple);
+  }
+  return tuples;
+}
+
+/**
+ * Builds a SQL filter to scope relation queries to the given parent key
+ * tuples.
+ *
+ * Single FK  → `foreignKey IN (id1, id2, …)`
+ * Composite  → `(fk1, fk2) IN ((v1, v2), …)` when the dialect is known,
+ *              `(fk1 = v1 AND fk2 = v2) OR …` otherwise
+ *
+ * Returns `undefined` when there is no tuple (the relation query should be
+ * skipped entirely in that case).
+ */
+function buildRelationScope(
+  keyTuples: unknown[][],
+  foreignKey: DrizzleSqlColumn | DrizzleSqlColumn[],
+  operators: DrizzleSqlOperatorSet,
+  dialect?: DrizzleDialect,
+): SQL | undefined {
+  const foreignKeys = toArray(foreignKey);
+  const [firstForeignKey] = foreignKeys;
+  if (keyTuples.length === 0 || firstForeignKey === undefined) return undefined;
+
+  if (foreignKeys.length === 1) {
+    return operators.inArray(
+      firstForeignKey,
+      keyTuples.map((tuple) => tuple[0]),
+    );
+  }
+
+  // Row values are supported by PG, MySQL and SQLite (3.15+).
+  if (dialect !== undefined) {
+    const bind = (value: unknown, column: DrizzleSqlColumn | undefined): SQL =>
+      drizzleIs(column, Column) ? sql`${sql.param(value, column)}` : sql`${value}`;
+    const rows = keyTuples.map(
+      (tuple) =>
+        sql`(${sql.join(
+          tuple.map((value, i) => bind(value, foreignKeys[i])),
+          sql`, `,
+        )})`,
+    );
+    return sql`(${sql.join(foreignKeys, sql`, `)}) in (${sql.join(rows, sql`, `)})`;
+  }
+
+  const conditions = keyTuples.map((tuple) =>
+    andSql(...foreignKeys.map((fk, i) => operators.eq(fk, tuple[i]))),
+  );
+  return conditions.length === 1 ? conditions[0] : orSql(...conditions);
+}
+
+/**
+ * The column(s) matched against the parent keys: the junction's parent-side
+ * column(s) for `through` relations, the child foreign key(s) otherwise.
+ * Throws when they do not pair up with the parent keys.
+ */
+function relationLinkKey(relation: AnyDrizzleRelation): DrizzleSqlColumn | DrizzleSqlColumn[] {
+  const [linkKey, linkKeyName] = relation.through
+    ? [relation.through.parentKey, 'through.parentKey']
+    : [relation.foreignKey, 'foreignKey'];
+  const linkKeyCount = toArray(linkKey).length;
+  if (linkKeyCount === 0 || linkKeyCount !== toArray(relation.parentKey).length) {
+    throw new DrizzlePaginationError(
+      `Relation "${relation.relationName}": ${linkKeyName} must have the same length as parentKey`,
+    );
+  }
+  return linkKey;
+}
+
+/** A dynamic query that can be joined — every Drizzle select builder can. */
+interface DrizzleJoinableQuery extends DrizzleDynamicQuery {
+  innerJoin(table: Table, on: SQL): DrizzleDynamicQuery;
+}
+
+function isJoinableQuery(query: DrizzleDynamicQuery): query is DrizzleJoinableQuery {
+  return 'innerJoin' in query && typeof query.innerJoin === 'function';
+}
+
+/**
+ * Inner-joins the junction table of a `through` relation on
+ * `childKey = foreignKey` (column by column for composite keys).
+ */
+function joinThroughTable(
+  query: DrizzleDynamicQuery,
+  relation: AnyDrizzleRelation,
+  through: DrizzleRelationThrough<DrizzleSqlColumn>,
+): DrizzleDynamicQuery {
+  const childKeys = toArray(through.childKey);
+  const foreignKeys = toArray(relation.foreignKey);
+  if (childKeys.length === 0 || childKeys.length !== foreignKeys.length) {
+    throw new DrizzlePaginationError(
+      `Relation "${relation.relationName}": through.childKey must have the same length as foreignKey`,
+    );
+  }
+  if (!isJoinableQuery(query)) {
+    throw new DrizzlePaginationError(
+      `Relation "${relation.relationName}": buildQuery must return a joinable select query to use through`,
+    );
+  }
+  const parts: SQL[] = [];
+  for (let i = 0; i < childKeys.length; i++) {
+    const childKey = childKeys[i];
+    const foreignKey = foreignKeys[i];
+    if (childKey !== undefined && foreignKey !== undefined) {
+      parts.push(sql`${childKey} = ${foreignKey}`);
+    }
+  }
+  return query.innerJoin(through.table, andSql(...parts));
+}
+
+/**
+ * Adds the link key column(s) to a relation select shape under the foreign
+ * key alias(es), which are returned.
+ */
+function addLinkKeysToSelect(
+  selectShape: DrizzleSelectShape<DrizzleSqlColumn>,
+  relation: AnyDrizzleRelation,
+): string | string[] {
+  const linkKeys = toArray(relationLinkKey(relation));
+  const fkAliases = buildFkAliases(linkKeys);
+  const fkAliasList = collectAliases(fkAliases);
+  for (let i = 0; i < linkKeys.length; i++) {
+    const alias = fkAliasList[i];
+    const col = linkKeys[i];
+    if (alias !== undefined && col !== undefined) {
+      selectShape[alias] = col;
+    }
+  }
+  return fkAliases;
+}
+
+/** Builds the relation-level filter of a request scoped to the relation. */
+function buildRelationWhere(
+  relationRequest: RelationRequest,
+  relation: AnyDrizzleRelation,
+  operators: DrizzleSqlOperatorSet,
+  strictFieldMapping: boolean,
+): SQL | undefined {
+  // With `filterMode: 'parent'` the filters apply to the parent rows instead.
+  if (relation.filterMode === 'parent') return undefined;
+  const nestedNames = (relation.relations ?? []).map((nested) => nested.relationName);
+  const ownFilters = relationRequest.filters
+    ? rewriteWhereNodeWithoutRelations(relationRequest.filters, nestedNames)
+    : undefined;
+  if (!ownFilters) return undefined;
+  const relationFields: DrizzleFieldMap<DataSchema, DrizzleSqlColumn> = relation.fields;
+  return whereNodeToDrizzleExpr(ownFilters, relationFields, operators, strictFieldMapping);
+}
+
+/**
+ * ANDs the static `where` and the client filters of a relation, the
+ * related-row type of a polymorphic relation and the parent scope of a
+ * relation query.
+ */
+function combineRelationWhere(
+  relation: AnyDrizzleRelation,
+  relationWhere: SQL | undefined,
+  parentScope: SQL | undefined,
+): SQL | undefined {
+  const discriminator = hasParentDiscriminator(relation)
+    ? undefined
+    : buildRelationDiscriminator(relation);
+  const conditions = [relation.where, relationWhere, discriminator, parentScope].filter(
+    (condition): condition is SQL => condition !== undefined,
+  );
+  return conditions.length > 1 ? andSql(...conditions) : conditions[0];
+}
+
+/**
+ * Builds a relation subquery correlated to the parent query through its
+ * parent key(s): `select … from child where link = parent key and …`,
+ * optionally ordered and limited per parent.
+ * `usage` names the feature in the error thrown when `buildQuery` does not
+ * return an embeddable Drizzle query builder.
+ */
+function buildCorrelatedRelationQuery(
+  relation: AnyDrizzleRelation,
+  select: DrizzleSelectShape<DrizzleSqlColumn>,
+  condition: SQL | undefined,
+  usage: string,
+  page: { orderBy?: SQL[]; limit?: number } = {},
+): SQLWrapper {
+  const linkKeys = toArray(relationLinkKey(relation));
+  const parentKeys = toArray(relation.parentKey);
+  const correlation: SQL[] = [];
+  for (let i = 0; i < linkKeys.length; i++) {
+    const linkKey = linkKeys[i];
+    const parentKey = parentKeys[i];
+    if (linkKey !== undefined && parentKey !== undefined) {
+      correlation.push(sql`${linkKey} = ${parentKey}`);
+    }
+  }
+  // The type column is on either side of the correlation, so it can be
+  // matched here for both kinds of polymorphic relations.
+  const discriminator = buildRelationDiscriminator(relation);
+  if (discriminator) correlation.push(discriminator);
+  if (relation.where) correlation.push(relation.where);
+
+  let subquery = relation.buildQuery(select).$dynamic();
+  if (relation.through) {
+    subquery = joinThroughTable(subquery, relation, relation.through);
+  }
+  subquery = subquery.where(condition ? andSql(...correlation, condition) : andSql(...correlation));
+  if (page.orderBy && page.orderBy.length > 0) {
+    subquery = subquery.orderBy(...page.orderBy);
+  }
+  if (page.limit !== undefined) {
+    subquery = subquery.limit(page.limit);
+  }
+  if (!isSQLWrapper(subquery)) {
+    throw new DrizzlePaginationError(
+      `Relation "${relation.relationName}": ${usage} requires buildQuery to return a Drizzle query builder`,
+    );
+  }
+  return subquery;
+}
+
+/**
+ * Builds `EXISTS (select 1 from child where link = parent key and …)` for a
+ * relation.
+ */
+function buildRelationExists(relation: AnyDrizzleRelation, condition: SQL): SQL {
+  const subquery = buildCorrelatedRelationQuery(
+    relation,
+    { __exists: sql`1` },
+    condition,
+    'filterMode "parent"',
+  );
+  return sql`exists ${subquery}`;
+}
+
+/**
+ * Translates the filters of a `filterMode: 'parent'` relation (paths relative
+ * to the relation) into `EXISTS` / `NOT EXISTS` predicates on the parent.
+ *
+ * The plain conditions of an `and` group share one `EXISTS`, so a single
+ * related row must match all of them; each negated condition becomes a
+ * `NOT EXISTS` (no related row matches it).
+ */
+function buildRelationParentFilter(
+  node: DrizzleWhereNode,
+  relation: AnyDrizzleRelation,
+  operators: DrizzleSqlOperatorSet,
+  strictFieldMapping: boolean,
+): SQL | undefined {
+  const relationFields: DrizzleFieldMap<DataSchema, DrizzleSqlColumn> = relation.fields;
+  const toCondition = (filters: DrizzleWhereNode[]): SQL | undefined => {
+    const conditions = filters
+      .map((filter) =>
+        whereNodeToDrizzleExpr(filter, relationFields, operators, strictFieldMapping),
+      )
+      .filter((condition): condition is SQL => condition !== undefined);
+    return conditions.length > 0 ? andSql(...conditions) : undefined;
+  };
+
+  if (node.type === 'filter') {
+    const negated = node.condition.not === true;
+    const condition = toCondition([
+      negated ? { ...node, condition: { ...node.condition, not: false } } : node,
+    ]);
+    if (!condition) return undefined;
+    const exists = buildRelationExists(relation, condition);
+    return negated ? sql`not ${exists}` : exists;
+  }
+
+  const parts: SQL[] = [];
+  if (node.type === 'and') {
+    const plainFilters = node.items.filter(
+      (item) => item.type === 'filter' && item.condition.not !== true,
+    );
+    const plainCondition = toCondition(plainFilters);
+    if (plainCondition) parts.push(buildRelationExists(relation, plainCondition));
+    for (const item of node.items) {
+      if (plainFilters.includes(item)) continue;
+      const part = buildRelationParentFilter(item, relation, operators, strictFieldMapping);
+      if (part) parts.push(part);
+    }
+    return parts.length > 0 ? andSql(...parts) : undefined;
+  }
+
+  for (const item of node.items) {
+    const part = buildRelationParentFilter(item, relation, operators, strictFieldMapping);
+    if (part) parts.push(part);
+  }
+  return parts.length > 0 ? orSql(...parts) : undefined;
+}
+
+/** Internal base for the aggregate aliases of relation aggregate queries. */
+const RELATION_AGGREGATE_ALIAS = '__agg';
+
+/** A relation aggregate requested with a `_count` or `<field>._<fn>` path. */
+interface RelationAggregateRequest {
+  fn: 'count' | RelationAggregateFunction;
+  field?: string;
+}
+
+/**
+ * Parses a relation-relative select path (`_count`, `views._sum`) into the
+ * aggregate it requests, provided the relation declares it.
+ */
+function parseRelationAggregatePath(
+  fieldPath: string,
+  relation: AnyDrizzleRelation,
+): RelationAggregateRequest | undefined {
+  const aggregates = relation.aggregates;
+  if (!aggregates) return undefined;
+  if (fieldPath === '_count') return aggregates.count ? { fn: 'count' } : undefined;
+
+  const separator = fieldPath.lastIndexOf('._');
+  if (separator <= 0) return undefined;
+  const field = fieldPath.slice(0, separator);
+  const suffix = fieldPath.slice(separator + 2);
+  const fn = RELATION_AGGREGATE_FUNCTIONS.find((candidate) => candidate === suffix);
+  if (!fn || !aggregates[fn]?.includes(field)) return undefined;
+  return { fn, field };
+}
+
+const RELATION_AGGREGATE_FUNCTIONS: readonly RelationAggregateFunction[] = [
+  'sum',
+  'avg',
+  'min',
+  'max',
+];
+
+/**
+ * Builds the SQL of a relation aggregate. `count`, `sum` and `avg` are read
+ * as numbers (PostgreSQL returns them as strings); `min` and `max` are
+ * decoded like the aggregated column.
+ */
+function buildRelationAggregateExpr(
+  aggregate: RelationAggregateRequest,
+  relation: AnyDrizzleRelation,
+): SQL {
+  if (aggregate.fn === 'count') return sql<number>`count(*)`.mapWith(Number);
+
+  const column = aggregate.field === undefined ? undefined : relation.fields[aggregate.field];
+  if (column === undefined) {
+    throw new DrizzlePaginationError(
+      `Relation "${relation.relationName}": unknown aggregate field "${aggregate.field ?? ''}"`,
+    );
+  }
+  switch (aggregate.fn) {
+    case 'sum':
+      return sql<number>`sum(${column})`.mapWith(Number);
+    case 'avg':
+      return sql<number>`avg(${column})`.mapWith(Number);
+    case 'min':
+      return drizzleIs(column, Column) ? sql`min(${column})`.mapWith(column) : sql`min(${column})`;
+    case 'max':
+      return drizzleIs(column, Column) ? sql`max(${column})`.mapWith(column) : sql`max(${column})`;
+  }
+}
+
+/** Relation aggregates the parent rows are sorted on, keyed by sort path. */
+interface RelationSortFields {
+  fields: Record<string, SQL>;
+  /** Aggregated column of each `min` / `max` field, typing its cursor value. */
+  valueColumns: Record<string, Column>;
+  /**
+   * "Is null" flags of the `sum` / `avg` / `min` / `max` fields, which are
+   * NULL for parents without related rows.
+   */
+  nullFlags: Record<string, SQL>;
+}
+
+/**
+ * Maps every `sortBy` path naming a relation aggregate (`posts._count`,
+ * `posts.createdAt._max`) to a correlated subquery computing it per parent,
+ * filtered like the relation's own aggregate query.
+ */
+function buildRelationSortFields(
+  sortBy: readonly { property: string }[],
+  relations: readonly AnyDrizzleRelation[],
+  filters: DrizzleWhereNode | undefined,
+  operators: DrizzleSqlOperatorSet,
+  strictFieldMapping: boolean,
+): RelationSortFields {
+  const sortFields: RelationSortFields = { fields: {}, valueColumns: {}, nullFlags: {} };
+  for (const { property } of sortBy) {
+    for (const relation of relations) {
+      const subPath = stripRelationPrefix(property, relation.relationName);
+      const aggregate =
+        subPath === undefined ? undefined : parseRelationAggregatePath(subPath, relation);
+      if (!aggregate) continue;
+
+      const relationWhere = buildRelationWhere(
+        scopeRequestToRelation({ filters }, relation.relationName),
+        relation,
+        operators,
+        strictFieldMapping,
+      );
+      const { expr, valueColumn } = buildRelationAggregateSubquery(
+        aggregate,
+        relation,
+        relationWhere,
+        'sorting by an aggregate',
+      );
+      sortFields.fields[property] = expr;
+      if (valueColumn) sortFields.valueColumns[property] = valueColumn;
+      if (aggregate.fn !== 'count') {
+        sortFields.nullFlags[property] = sql<number>`case when ${expr} is null then 1 else 0 end`;
+      }
+    }
+  }
+  return sortFields;
+}
+
+/**
+ * Builds a relation aggregate as a correlated scalar subquery, decoded like
+ * its grouped counterpart. `valueColumn` is the aggregated column of `min` /
+ * `max`, which types their values.
+ */
+function buildRelationAggregateSubquery(
+  aggregate: RelationAggregateRequest,
+  relation: AnyDrizzleRelation,
+  relationWhere: SQL | undefined,
+  usage: string,
+): { expr: SQL; valueColumn?: Column } {
+  const subquery = buildCorrelatedRelationQuery(
+    relation,
+    { [RELATION_AGGREGATE_ALIAS]: buildRelationAggregateExpr(aggregate, relation) },
+    relationWhere,
+    usage,
+  );
+  if (aggregate.fn !== 'min' && aggregate.fn !== 'max') {
+    return { expr: sql<number>`${subquery}`.mapWith(Number) };
+  }
+  const column = aggregate.field === undefined ? undefined : relation.fields[aggregate.field];
+  if (!drizzleIs(column, Column)) return { expr: sql`${subquery}` };
+  return { expr: sql`${subquery}`.mapWith(column), valueColumn: column };
+}
+
+/** A dynamic query that can be grouped — every Drizzle select builder can. */
+interface DrizzleGroupableQuery extends DrizzleDynamicQuery {
+  groupBy(...columns: DrizzleSqlColumn[]): DrizzleDynamicQuery;
+}
+
+function isGroupableQuery(query: DrizzleDynamicQuery): query is DrizzleGroupableQuery {
+  return 'groupBy' in query && typeof query.groupBy === 'function';
+}
+
+/** Select alias of the `row_number()` column used to limit rows per parent. */
+const RELATION_RANK_ALIAS = '__rn';
+
+/** Single-column primary key of the table that owns `column`, if declared. */
+function findPrimaryKeyColumn(column: DrizzleSqlColumn | undefined): Column | undefined {
+  if (!drizzleIs(column, Column)) return undefined;
+  return Object.values(getTableColumns(column.table)).find((candidate) => candidate.primary);
+}
+
+/**
+ * Builds a predicate keeping the first `limit` rows of each parent:
+ *
+ * `(link, pk) in (select … from (select link, pk, row_number() over
+ * (partition by link order by …) as __rn from … where …) as __ranked
+ * where __rn <= limit)`
+ *
+ * The ranked query is built with the relation's own `buildQuery` (and
+ * junction join), so it sees the same rows as the relation query itself.
+ * Returns `undefined` when the limit cannot be pushed into SQL — the child
+ * table has no single-column primary key or the query cannot be embedded —
+ * in which case assembly enforces it instead.
+ */
+function buildRelationLimitPredicate(
+  relation: AnyDrizzleRelation,
+  limit: number,
+  orderBy: SQL[],
+  where: SQL | undefined,
+): SQL | undefined {
+  const primaryKey = findPrimaryKeyColumn(toArray(relation.foreignKey)[0]);
+  if (!primaryKey) return undefined;
+
+  const linkKeys = toArray(relationLinkKey(relation));
+  const identity = [...linkKeys, primaryKey];
+  const rankOrder = orderBy.length > 0 ? orderBy : [sql`${primaryKey}`];
+
+  const rankShape: DrizzleSelectShape<DrizzleSqlColumn> = {};
+  const identityAliases = identity.map((column, i) => {
+    const alias = `__rank_key_${i}`;
+    rankShape[alias] = sql`${column}`.as(alias);
+    return sql.identifier(alias);
+  });
+  rankShape[RELATION_RANK_ALIAS] = sql`row_number() over (partition by ${sql.join(
+    linkKeys,
+    sql`, `,
+  )} order by ${sql.join(rankOrder, sql`, `)})`.as(RELATION_RANK_ALIAS);
+
+  let ranked = relation.buildQuery(rankShape).$dynamic();
+  if (relation.through) {
+    ranked = joinThroughTable(ranked, relation, relation.through);
+  }
+  if (where) {
+    ranked = ranked.where(where);
+  }
+  if (!isSQLWrapper(ranked)) return undefined;
+
+  return sql`(${sql.join(identity, sql`, `)}) in (select ${sql.join(
+    identityAliases,
+    sql`, `,
+  )} from ${ranked} as __ranked where ${sql.identifier(RELATION_RANK_ALIAS)} <= ${limit})`;
+}
+
+/**
+ * Relation-level view of the request. Paths are relative to the level being
+ * built (e.g. `"posts.comments.body"` at the root, `"comments.body"` inside
+ * `posts`).
+ */
+interface RelationRequest {
+  select?: readonly string[];
+  filters?: DrizzleWhereNode;
+  sortBy?: readonly { property: string; direction: SortDirection }[];
+}
+
+/** Strips the `relationName.` prefix from every path that belongs to the relation. */
+function scopeRequestToRelation(request: RelationRequest, relationName: string): RelationRequest {
+  const select: string[] = [];
+  for (const fieldPath of request.select ?? []) {
+    const subPath = stripRelationPrefix(fieldPath, relationName);
+    if (subPath !== undefined) select.push(subPath);
+  }
+
+  const sortBy: { property: string; direction: SortDirection }[] = [];
+  for (const sortItem of request.sortBy ?? []) {
+    const subPath = stripRelationPrefix(sortItem.property, relationName);
+    if (subPath !== undefined) sortBy.push({ property: subPath, direction: sortItem.direction });
+  }
+
+  return {
+    select,
+    filters: request.filters
+      ? rewriteWhereNodeForRelation(request.filters, relationName)
+      : undefined,
+    sortBy,
+  };
+}
+
+/**
+ * Builds the ordering of a relation's rows from a request scoped to the
+ * relation: the client sort items on its own fields, then the static
+ * `orderBy` as fallback / tiebreaker.
+ */
+function buildRelationOrderBy(
+  relationRequest: RelationRequest,
+  relation: AnyDrizzleRelation,
+  operators: DrizzleSqlOperatorSet,
+  strictFieldMapping: boolean,
+): SQL[] {
+  const nestedNames = (relation.relations ?? []).map((nested) => nested.relationName);
+  const relationFields: DrizzleFieldMap<DataSchema, DrizzleSqlColumn> = relation.fields;
+  const relationOrderBy: SQL[] = [];
+
+  for (const sortItem of relationRequest.sortBy ?? []) {
+    if (belongsToAnyRelation(sortItem.property, nestedNames)) continue;
+    // Aggregates sort the parent rows, not the related ones.
+    if (parseRelationAggregatePath(sortItem.property, relation)) continue;
+
+    const mappedColumn = getMappedColumn(sortItem.property, relationFields, strictFieldMapping);
+    if (!mappedColumn) continue;
+
+    relationOrderBy.push(directionToOrderExpr(sortItem.direction, mappedColumn, operators));
+  }
+
+  // Append static relation orderBy as fallback / tiebreaker.
+  if (relation.orderBy && relation.orderBy.length > 0) {
+    relationOrderBy.push(...relation.orderBy);
+  }
+  return relationOrderBy;
+}
+
+/**
+ * Builds a single relation query from the request, extracting only the
+ * select/filter/sort fields prefixed with the relation name. Paths that
+ * belong to nested relations are routed to their own (unscoped) queries,
+ * returned in `relations`.
+ */
+function buildSingleRelationQuery(
+  request: RelationRequest,
+  relation: AnyDrizzleRelation,
+  operators: DrizzleSqlOperatorSet,
+  selectAlias: (fieldPath: string) => string,
+  strictFieldMapping: boolean,
+  parentScope?: SQL,
+): DrizzleRelationQuery<DrizzleSqlColumn> {
+  const relationRequest = scopeRequestToRelation(request, relation.relationName);
+  const nestedRelations = expandMorphTargets(relation.relations ?? []);
+  const nestedNames = nestedRelations.map((nested) => nested.relationName);
+
+  // ── Select ──────────────────────────────────────────────────────
+  const relationSelectPaths = (relationRequest.select ?? []).filter(
+    (fieldPath) =>
+      !belongsToAnyRelation(fieldPath, nestedNames) &&
+      parseRelationAggregatePath(fieldPath, relation) === undefined,
+  );
+
+  const relationFields: DrizzleFieldMap<DataSchema, DrizzleSqlColumn> = relation.fields;
+
+  const selectShape = buildSelectShapeInternal(
+    relationSelectPaths,
+    relationFields,
+    strictFieldMapping,
+    selectAlias,
+  );
+
+  // Always include the foreign key(s) so we can match parent ↔ child.
+  const fkAliases = addLinkKeysToSelect(selectShape, relation);
+
+  // Include the parent key(s) of nested relations so they can be scoped and assembled.
+  for (const nested of nestedRelations) {
+    if (nested.strategy === 'json') {
+      throw new DrizzlePaginationError(
+        `Relation "${nested.relationName}": strategy "json" requires its parent relation "${relation.relationName}" to use it too`,
+      );
+    }
+    addParentKeysToSelect(selectShape, nested);
+  }
+
+  // ── Filters ─────────────────────────────────────────────────────
+  const relationWhere = buildRelationWhere(
+    relationRequest,
+    relation,
+    operators,
+    strictFieldMapping,
+  );
+
+  // ── Sort ────────────────────────────────────────────────────────
+  const relationOrderBy = buildRelationOrderBy(
+    relationRequest,
+    relation,
+    operators,
+    strictFieldMapping,
+  );
+
+  // ── Build query ─────────────────────────────────────────────────
+  let query = relation.buildQuery(selectShape).$dynamic();
+  if (relation.through) {
+    query = joinThroughTable(query, relation, relation.through);
+  }
+
+  // Combine relation-level filters with the type and parent-scope IN clause.
+  let combinedWhere = combineRelationWhere(relation, relationWhere, parentScope);
+
+  // Keep at most `limit` rows per parent in SQL when possible.
+  const mode = relation.mode ?? 'many';
+  if (
+    relation.limit !== undefined &&
+    relation.limit > 0 &&
+    mode === 'many' &&
+    relation.limitStrategy !== 'memory'
+  ) {
+    const limitPredicate = buildRelationLimitPredicate(
+      relation,
+      relation.limit,
+      relationOrderBy,
+      combinedWhere,
+    );
+    if (limitPredicate) {
+      combinedWhere = combinedWhere ? andSql(combinedWhere, limitPredicate) : limitPredicate;
+    }
+  }
+
+  if (combinedWhere) {
+    query = query.where(combinedWhere);
+  }
+  if (relationOrderBy.length > 0) {
+    query = query.orderBy(...relationOrderBy);
+  }
+
+  return {
+    relationName: relation.relationName,
+    parentKey: relation.parentKey,
+    foreignKeyAlias: fkAliases,
+    mode,
+    limit: relation.limit,
+    morphType:
+      relation.discriminator && hasParentDiscriminator(relation)
+        ? {
+            alias: buildTypeAlias(relation.relationName),
+            values: discriminatorValues(relation.discriminator),
+          }
+        : undefined,
+    query,
+    relations: nestedRelations.flatMap((nested) =>
+      buildRelationQueries(relationRequest, nested, operators, selectAlias, strictFieldMapping),
+    ),
+  };
+}
+
+/**
+ * Builds the grouped aggregate query of a relation for the `_count` /
+ * `<field>._<fn>` paths selected in the request, or `undefined` when none is.
+ *
+ * Rows are grouped by the link key(s), so the query returns one row per
+ * parent that has related rows, filtered like the relation query itself.
+ */
+function buildRelationAggregateQuery(
+  request: RelationRequest,
+  relation: AnyDrizzleRelation,
+  operators: DrizzleSqlOperatorSet,
+  selectAlias: (fieldPath: string) => string,
+  strictFieldMapping: boolean,
+  parentScope?: SQL,
+): DrizzleRelationQuery<DrizzleSqlColumn> | undefined {
+  const relationRequest = scopeRequestToRelation(request, relation.relationName);
+
+  const selectShape: DrizzleSelectShape<DrizzleSqlColumn> = {};
+  const outputs: DrizzleRelationAggregateOutput[] = [];
+  for (const fieldPath of relationRequest.select ?? []) {
+    const aggregate = parseRelationAggregatePath(fieldPath, relation);
+    if (!aggregate) continue;
+    const alias = `${RELATION_AGGREGATE_ALIAS}_${outputs.length}`;
+    selectShape[alias] = buildRelationAggregateExpr(aggregate, relation);
+    outputs.push({
+      alias,
+      key: selectAlias(`${relation.relationName}.${fieldPath}`),
+      emptyValue: aggregate.fn === 'count' ? 0 : null,
+    });
+  }
+  if (outputs.length === 0) return undefined;
+
+  const fkAliases = addLinkKeysToSelect(selectShape, relation);
+
+  let query = relation.buildQuery(selectShape).$dynamic();
+  if (relation.through) {
+    query = joinThroughTable(query, relation, relation.through);
+  }
+
+  const relationWhere = buildRelationWhere(
+    relationRequest,
+    relation,
+    operators,
+    strictFieldMapping,
+  );
+  const combinedWhere = combineRelationWhere(relation, relationWhere, parentScope);
+  if (combinedWhere) {
+    query = query.where(combinedWhere);
+  }
+
+  if (!isGroupableQuery(query)) {
+    throw new DrizzlePaginationError(
+      `Relation "${relation.relationName}": buildQuery must return a select query supporting groupBy to compute aggregates`,
+    );
+  }
+
+  return {
+    relationName: relation.relationName,
+    parentKey: relation.parentKey,
+    foreignKeyAlias: fkAliases,
+    mode: 'one',
+    query: query.groupBy(...toArray(relationLinkKey(relation))),
+    aggregates: outputs,
+  };
+}
+
+/**
+ * Builds the queries of a relation: its rows query and, when aggregates are
+ * selected, its grouped aggregate query. The rows query is left out when the
+ * request selects nothing but aggregates of the relation.
+ */
+function buildRelationQueries(
+  request: RelationRequest,
+  relation: AnyDrizzleRelation,
+  operators: DrizzleSqlOperatorSet,
+  selectAlias: (fieldPath: string) => string,
+  strictFieldMapping: boolean,
+  parentScope?: SQL,
+): DrizzleRelationQuery<DrizzleSqlColumn>[] {
+  // Embedded in the parent select instead.
+  if (relation.strategy === 'json') return [];
+  // The paths of a morphTo relation only map to the targets declaring them.
+  const strict = relation.morphTarget ? false : strictFieldMapping;
+
+  const aggregateQuery = buildRelationAggregateQuery(
+    request,
+    relation,
+    operators,
+    selectAlias,
+    strict,
+    parentScope,
+  );
+  const relationSelect = scopeRequestToRelation(request, relation.relationName).select ?? [];
+  if (
+    aggregateQuery &&
+    relationSelect.every((fieldPath) => parseRelationAggregatePath(fieldPath, relation))
+  ) {
+    return [aggregateQuery];
+  }
+
+  const relationQuery = buildSingleRelationQuery(
+    request,
+    relation,
+    operators,
+    selectAlias,
+    strict,
+    parentScope,
+  );
+  return aggregateQuery ? [relationQuery, aggregateQuery] : [relationQuery];
+}
+
+/** Alias of the correlated row source read by `strategy: 'json'` relations. */
+const RELATION_JSON_ALIAS = '__json';
+
+/**
+ * Alias of the position of each row read by a `strategy: 'json'` relation,
+ * which orders the JSON array: the row order of a derived table does not
+ * survive the aggregate.
+ */
+const RELATION_JSON_ORDER_ALIAS = '__json_order';
+
+/**
+ * A value embedded in the parent select by a `strategy: 'json'` relation:
+ * its rows (under the relation name) or one of its aggregates.
+ */
+interface JsonRelationField {
+  alias: string;
+  expr: SQL;
+  /** Decodes the value once read back from JSON. */
+  decode: (value: unknown) => unknown;
+  /** Whether the value is JSON (embedded rows) rather than a scalar. */
+  json: boolean;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Parses JSON returned as text (SQLite); drivers already parse PG and MySQL JSON. */
+function parseJsonValue(value: unknown): unknown {
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+/**
+ * Decodes a value read back from JSON like its column decodes driver values,
+ * which restores dates and bigints (the latter embedded as text).
+ */
+function decodeJsonColumnValue(column: unknown, value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+  const computedDataType = computedFieldDataType(column);
+  if (computedDataType) return decodeComputedValue(computedDataType, value);
+  if (!drizzleIs(column, Column)) return value;
+  return column.mapFromDriverValue(value);
+}
+
+function isBigIntColumn(column: unknown): boolean {
+  if (computedFieldDataType(column) === 'bigint') return true;
+  return drizzleIs(column, Column) && column.dataType === 'bigint';
+}
+
+/** Builds `json_build_object` (PG) / `json_object` (MySQL, SQLite) from key-value pairs. */
+function buildJsonObject(dialect: DrizzleDialect, pairs: SQL[]): SQL {
+  const args = sql.join(pairs, sql`, `);
+  return dialect === 'pg' ? sql`json_build_object(${args})` : sql`json_object(${args})`;
+}
+
+/**
+ * Aggregates JSON objects into an array, `[]` when there are none. Only PG
+ * orders the array by `order`: MySQL and SQLite rows embed their position
+ * instead, and are sorted when decoded.
+ */
+function buildJsonArrayAgg(dialect: DrizzleDialect, object: SQL, order?: SQL): SQL {
+  switch (dialect) {
+    case 'pg':
+      return order
+        ? sql`coalesce(json_agg(${object} order by ${order}), '[]'::json)`
+        : sql`coalesce(json_agg(${object}), '[]'::json)`;
+    case 'mysql':
+      return sql`coalesce(json_arrayagg(${object}), json_array())`;
+    case 'sqlite':
+      return sql`coalesce(json_group_array(${object}), json_array())`;
+  }
+}
+
+/** Sorts rows read back from a JSON array by their embedded position. */
+function sortJsonRowsByPosition(rows: unknown[]): unknown[] {
+  const positionOf = (row: unknown): number =>
+    isRecord(row) ? Number(row[RELATION_JSON_ORDER_ALIAS]) : 0;
+  return [...rows].sort((a, b) => positionOf(a) - positionOf(b));
 }
 
 /**
- * Builds a single relation query from the parsed pagination, extracting only
- * the select/filter/sort fields prefixed with the relation name.
+ * Builds the fields a `strategy: 'json'` relation embeds in its parent
+ * select: its rows aggregated as JSON by a correlated subquery (ordered,
+ * filtered and limited per parent like a relation query), under the
+ * relation name, plus its selected aggregates as correlated scalar
+ * subqueries. Nested relations are embedded in the rows the same way.
  */
-function buildSingleRelationQuery(
-  pagination: PaginationPayload<DataSchema>,
+function buildJsonRelationFields(
+  request: RelationRequest,
   relation: AnyDrizzleRelation,
+  dialect: DrizzleDialect,
   operators: DrizzleSqlOperatorSet,
   selectAlias: (fieldPath: string) => string,
   strictFieldMapping: boolean,
-  parentScope?: SQL,
-): DrizzleRelationQuery<DrizzleSqlColumn> {
-  // ── Select ──────────────────────────────────────────────────────
-  const relationSelectPaths: string[] = [];
-
-  if (pagination.select) {
-    for (const fieldPath of pagination.select) {
-      const subPath = stripRelationPrefix(fieldPath, relation.relationName);
-      if (subPath !== undefined) {
-        relationSelectPaths.push(subPath);
-      }
-    }
+): JsonRelationField[] {
+  if (relation.morphTargets) {
+    throw new DrizzlePaginationError(
+      `Relation "${relation.relationName}": morphTo relations cannot use strategy "json"`,
+    );
+  }
+  const relationRequest = scopeRequestToRelation(request, relation.relationName);
+  const nestedRelations = relation.relations ?? [];
+  const nestedNames = nestedRelations.map((nested) => nested.relationName);
+  const relationWhere = buildRelationWhere(
+    relationRequest,
+    relation,
+    operators,
+    strictFieldMapping,
+  );
+  const relationSelect = relationRequest.select ?? [];
+
+  const fields: JsonRelationField[] = [];
+  for (const fieldPath of relationSelect) {
+    const aggregate = parseRelationAggregatePath(fieldPath, relation);
+    if (!aggregate) continue;
+    const { expr, valueColumn } = buildRelationAggregateSubquery(
+      aggregate,
+      relation,
+      relationWhere,
+      'strategy "json"',
+    );
+    fields.push({
+      alias: selectAlias(`${relation.relationName}.${fieldPath}`),
+      expr,
+      decode: (value) => {
+        if (value === null || aggregate.fn === 'min' || aggregate.fn === 'max') {
+          return decodeJsonColumnValue(valueColumn, value);
+        }
+        return Number(value);
+      },
+      json: false,
+    });
+  }
+  // Only aggregates are selected: the rows themselves are not embedded.
+  if (
+    fields.length > 0 &&
+    relationSelect.every((fieldPath) => parseRelationAggregatePath(fieldPath, relation))
+  ) {
+    return fields;
   }
 
+  // ── Rows ────────────────────────────────────────────────────────
   const relationFields: DrizzleFieldMap<DataSchema, DrizzleSqlColumn> = relation.fields;
-
   const selectShape = buildSelectShapeInternal(
-    relationSelectPaths,
+    relationSelect.filter(
+      (fieldPath) =>
+        !belongsToAnyRelation(fieldPath, nestedNames) &&
+        parseRelationAggregatePath(fieldPath, relation) === undefined,
+    ),
     relationFields,
     strictFieldMapping,
     selectAlias,
   );
-
-  // Always include the foreign key(s) so we can match parent ↔ child.
-  const foreignKeys = toArray(relation.foreignKey);
-  const fkAliases = buildFkAliases(foreignKeys);
-  const fkAliasList = collectAliases(fkAliases);
-  for (let i = 0; i < foreignKeys.length; i++) {
-    const alias = fkAliasList[i];
-    const col = foreignKeys[i];
-    if (alias !== undefined && col !== undefined) {
-      selectShape[alias] = col;
-    }
-  }
-
-  // ── Filters ─────────────────────────────────────────────────────
-  let relationWhere: SQL | undefined;
-
-  if (pagination.filters) {
-    const rewrittenFilters = rewriteWhereNodeForRelation(pagination.filters, relation.relationName);
-    if (rewrittenFilters) {
-      relationWhere = whereNodeToDrizzleExpr(
-        rewrittenFilters,
-        relationFields,
+  const rowFields: JsonRelationField[] = Object.entries(selectShape).map(([alias, column]) => ({
+    alias,
+    expr: sql`${column}`,
+    decode: (value) => decodeJsonColumnValue(column, value),
+    json: false,
+  }));
+  for (const nested of nestedRelations) {
+    rowFields.push(
+      ...buildJsonRelationFields(
+        relationRequest,
+        nested,
+        dialect,
         operators,
+        selectAlias,
         strictFieldMapping,
-      );
-    }
+      ),
+    );
   }
 
-  // ── Sort ────────────────────────────────────────────────────────
-  const relationOrderBy: SQL[] = [];
+  const rowSelect: DrizzleSelectShape<DrizzleSqlColumn> = {};
+  for (const field of rowFields) rowSelect[field.alias] = field.expr.as(field.alias);
+  // The link key(s) keep the select non-empty; they are not embedded.
+  addLinkKeysToSelect(rowSelect, relation);
+
+  const mode = relation.mode ?? 'many';
+  let limit: number | undefined;
+  if (mode === 'one') limit = 1;
+  else if (relation.limit !== undefined && relation.limit > 0) limit = relation.limit;
+  const orderBy = buildRelationOrderBy(relationRequest, relation, operators, strictFieldMapping);
+  // The position of each row keeps the JSON array in the relation's order.
+  const ordered = mode === 'many' && orderBy.length > 0;
+  if (ordered) {
+    rowSelect[RELATION_JSON_ORDER_ALIAS] = sql<number>`row_number() over (order by ${sql.join(
+      orderBy,
+      sql`, `,
+    )})`.as(RELATION_JSON_ORDER_ALIAS);
+  }
+  const rows = buildCorrelatedRelationQuery(relation, rowSelect, relationWhere, 'strategy "json"', {
+    orderBy,
+    limit,
+  });
 
-  if (pagination.sortBy) {
-    for (const sortItem of pagination.sortBy) {
-      const subPath = stripRelationPrefix(sortItem.property, relation.relationName);
-      if (subPath === undefined) continue;
+  const source = sql.identifier(RELATION_JSON_ALIAS);
+  const position = sql`${source}.${sql.identifier(RELATION_JSON_ORDER_ALIAS)}`;
+  const pairs = rowFields.map((field) => {
+    let value = sql`${source}.${sql.identifier(field.alias)}`;
+    // SQLite reads embedded JSON back as text: mark it as JSON again.
+    if (field.json && dialect === 'sqlite') value = sql`json(${value})`;
+    // Bigints are embedded as text so that no precision is lost.
+    if (isBigIntColumn(selectShape[field.alias])) {
+      value = dialect === 'mysql' ? sql`cast(${value} as char)` : sql`cast(${value} as text)`;
+    }
+    return sql`${sql.raw(`'${field.alias.replace(/'/g, "''")}'`)}, ${value}`;
+  });
+  const object = buildJsonObject(dialect, pairs);
+  const orderedObject =
+    ordered && dialect !== 'pg'
+      ? buildJsonObject(dialect, [
+          ...pairs,
+          sql`${sql.raw(`'${RELATION_JSON_ORDER_ALIAS}'`)}, ${position}`,
+        ])
+      : object;
+
+  const decodeRow = (row: unknown): unknown => {
+    if (!isRecord(row)) return row;
+    const decoded: Record<string, unknown> = {};
+    for (const field of rowFields) decoded[field.alias] = field.decode(row[field.alias]);
+    return decoded;
+  };
 
-      const mappedColumn = getMappedColumn(subPath, relationFields, strictFieldMapping);
-      if (!mappedColumn) continue;
+  const rowsField: JsonRelationField =
+    mode === 'one'
+      ? {
+          alias: relation.relationName,
+          expr: sql`(select ${object} from ${rows} as ${source})`,
+          decode: (value: unknown): unknown =>
+            value === null ? null : decodeRow(parseJsonValue(value)),
+          json: true,
+        }
+      : {
+          alias: relation.relationName,
+          expr: sql`(select ${buildJsonArrayAgg(
+            dialect,
+            orderedObject,
+            ordered ? position : undefined,
+          )} from ${rows} as ${source})`,
+          decode: (value: unknown): unknown => {
+            const parsed = parseJsonValue(value);
+            if (!Array.isArray(parsed)) return [];
+            const sorted = ordered && dialect !== 'pg' ? sortJsonRowsByPosition(parsed) : parsed;
+            return sorted.map(decodeRow);
+          },
+          json: true,
+        };
+  return [rowsField, ...fields];
+}
 
-      relationOrderBy.push(directionToOrderExpr(sortItem.direction, mappedColumn, operators));
+/**
+ * Adds the fields of the `strategy: 'json'` relations to a parent select
+ * shape, decoded when the parent rows are read.
+ */
+function addJsonRelationsToSelect(
+  selectShape: DrizzleSelectShape<unknown>,
+  request: RelationRequest,
+  relations: readonly AnyDrizzleRelation[],
+  dialect: DrizzleDialect | undefined,
+  operators: DrizzleSqlOperatorSet,
+  selectAlias: (fieldPath: string) => string,
+  strictFieldMapping: boolean,
+): void {
+  for (const relation of relations) {
+    if (relation.strategy !== 'json') continue;
+    if (!dialect) {
+      throw new DrizzlePaginationError(
+        `Relation "${relation.relationName}": strategy "json" requires the dialect option`,
+      );
+    }
+    const fields = buildJsonRelationFields(
+      request,
+      relation,
+      dialect,
+      operators,
+      selectAlias,
+      strictFieldMapping,
+    );
+    for (const field of fields) {
+      selectShape[field.alias] = field.expr.mapWith(field.decode);
     }
   }
+}
 
-  // Append static relation orderBy as fallback / tiebreaker.
-  if (relation.orderBy && relation.orderBy.length > 0) {
-    relationOrderBy.push(...relation.orderBy);
-  }
+/** Default maximum number of parent keys scoping one relation query. */
+const DEFAULT_RELATION_CHUNK_SIZE = 1000;
 
-  // ── Build query ─────────────────────────────────────────────────
-  let query = relation.buildQuery(selectShape).$dynamic();
+/** Default maximum number of relation queries running at the same time. */
+const DEFAULT_RELATION_CONCURRENCY = 4;
 
-  // Combine relation-level filters with parent-scope IN clause.
-  const combinedWhere =
-    relationWhere && parentScope
-      ? andSql(relationWhere, parentScope)
-      : (relationWhere ?? parentScope);
+/** Runs a query once fewer than the concurrency cap are running. */
+type RelationQueryRunner = <T>(query: () => PromiseLike<T>) => Promise<T>;
 
-  if (combinedWhere) {
-    query = query.where(combinedWhere);
+/**
+ * Creates a runner that lets at most `concurrency` queries run at the same
+ * time; the others wait in FIFO order.
+ */
+function createRelationQueryRunner(concurrency: number): RelationQueryRunner {
+  let running = 0;
+  const waiting: (() => void)[] = [];
+  // A finished query hands its slot over to the next waiting one.
+  const release = (): void => {
+    const next = waiting.shift();
+    if (next) next();
+    else running -= 1;
+  };
+  return async (query) => {
+    if (running >= concurrency) {
+      await new Promise<void>((resolve) => {
+        waiting.push(resolve);
+      });
+    } else {
+      running += 1;
+    }
+    try {
+      return await query();
+    } finally {
+      release();
+    }
+  };
+}
+
+/** How `execute()` runs the scoped relation queries. */
+interface RelationExecutionOptions {
+  /** Row-value `IN` is used for composite keys when the dialect is known. */
+  dialect?: DrizzleDialect;
+  /** Maximum number of parent keys per relation query. */
+  chunkSize: number;
+  run: RelationQueryRunner;
+}
+
+function resolveRelationExecutionOptions(config: {
+  dialect?: DrizzleDialect;
+  relationChunkSize?: number;
+  relationConcurrency?: number;
+}): RelationExecutionOptions {
+  const chunkSize = config.relationChunkSize ?? DEFAULT_RELATION_CHUNK_SIZE;
+  const concurrency = config.relationConcurrency ?? DEFAULT_RELATION_CONCURRENCY;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new DrizzlePaginationError('relationChunkSize must be a positive integer');
   }
-  if (relationOrderBy.length > 0) {
-    query = query.orderBy(...relationOrderBy);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new DrizzlePaginationError('relationConcurrency must be a positive integer');
   }
-
   return {
-    relationName: relation.relationName,
-    parentKey: relation.parentKey,
-    foreignKeyAlias: fkAliases,
-    mode: relation.mode ?? 'many',
-    limit: relation.limit,
-    query,
+    dialect: config.dialect,
+    chunkSize,
+    run: createRelationQueryRunner(concurrency),
   };
 }
 
+/** Splits items into consecutive chunks of at most `size` items. */
+function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
 /**
- * Builds a select-only relation query (no filters / sort).
- * Used by `generateSelectQuery` and its scoped `execute()`.
+ * Runs relation queries level by level: each query is scoped to the keys of
+ * the rows fetched one level up, then its nested relations are scoped to its
+ * own rows. Queries without any parent key to match are skipped.
+ *
+ * The parent keys are split into chunks of `options.chunkSize`, each chunk
+ * running its own queries (at most `options.run`'s cap at once); the rows of
+ * every chunk are merged before the next level is scoped.
+ *
+ * Returns the scoped query tree and the result arrays in the depth-first
+ * order expected by `assembleDrizzleRelations`.
  */
-function buildSelectOnlyRelationQuery(
-  allSelectPaths: readonly string[],
-  relation: AnyDrizzleRelation,
+async function executeScopedRelationQueries(
+  parentRows: Record<string, unknown>[],
+  request: RelationRequest,
+  relations: readonly AnyDrizzleRelation[],
+  operators: DrizzleSqlOperatorSet,
   selectAlias: (fieldPath: string) => string,
   strictFieldMapping: boolean,
-  parentScope?: SQL,
-): DrizzleRelationQuery<DrizzleSqlColumn> {
-  const relationSelectPaths: string[] = [];
-  for (const fieldPath of allSelectPaths) {
-    const subPath = stripRelationPrefix(fieldPath, relation.relationName);
-    if (subPath !== undefined) {
-      relationSelectPaths.push(subPath);
-    }
-  }
-
-  const relationFields: DrizzleFieldMap<DataSchema, DrizzleSqlColumn> = relation.fields;
+  options: RelationExecutionOptions,
+): Promise<{
+  queries: DrizzleRelationQuery<DrizzleSqlColumn>[];
+  results: Record<string, unknown>[][];
+}> {
+  const levels = await Promise.all(
+    relations.map(async (relation) => {
+      const keyTuples = collectParentKeyTuples(parentRows, relation);
+      const chunks = chunkArray(keyTuples, options.chunkSize);
+
+      // One set of relation queries per chunk of parent keys.
+      const chunkResults = await Promise.all(
+        chunks.map(async (chunk) => {
+          const scope = buildRelationScope(
+            chunk,
+            relationLinkKey(relation),
+            operators,
+            options.dialect,
+          );
+          const chunkQueries = buildRelationQueries(
+            request,
+            relation,
+            operators,
+            selectAlias,
+            strictFieldMapping,
+            scope,
+          );
+          const rows = await Promise.all(
+            chunkQueries.map(async (relationQuery): Promise<Record<string, unknown>[]> =>
+              options.run(() => relationQuery.query),
+            ),
+          );
+          return { queries: chunkQueries, rows };
+        }),
+      );
 
-  const selectShape = buildSelectShapeInternal(
-    relationSelectPaths,
-    relationFields,
-    strictFieldMapping,
-    selectAlias,
+      // Without parent keys nothing is queried, but the query tree is kept.
+      const relationQueries =
+        chunkResults[0]?.queries ??
+        buildRelationQueries(request, relation, operators, selectAlias, strictFieldMapping);
+
+      return Promise.all(
+        relationQueries.map(async (relationQuery, index) => {
+          const rows = chunkResults.flatMap((chunk) => chunk.rows[index] ?? []);
+          if (relationQuery.aggregates) return { queries: [relationQuery], results: [rows] };
+
+          const nested = await executeScopedRelationQueries(
+            rows,
+            scopeRequestToRelation(request, relation.relationName),
+            expandMorphTargets(relation.relations ?? []),
+            operators,
+            selectAlias,
+            strictFieldMapping,
+            options,
+          );
+          return {
+            queries: [{ ...relationQuery, relations: nested.queries }],
+            results: [rows, ...nested.results],
+          };
+        }),
+      );
+    }),
   );
 
-  // Always include the foreign key(s) so we can match parent ↔ child.
-  const foreignKeys = toArray(relation.foreignKey);
-  const fkAliases = buildFkAliases(foreignKeys);
-  const fkAliasList = collectAliases(fkAliases);
-  for (let j = 0; j < foreignKeys.length; j++) {
-    const alias = fkAliasList[j];
-    const col = foreignKeys[j];
-    if (alias !== undefined && col !== undefined) {
-      selectShape[alias] = col;
-    }
-  }
-
-  let relationQuery: DrizzleDynamicQuery = relation.buildQuery(selectShape).$dynamic();
-
-  if (parentScope) {
-    relationQuery = relationQuery.where(parentScope);
-  }
-
-  // Apply static relation orderBy.
-  if (relation.orderBy && relation.orderBy.length > 0) {
-    relationQuery = relationQuery.orderBy(...relation.orderBy);
-  }
-
+  const executed = levels.flat();
   return {
-    relationName: relation.relationName,
-    parentKey: relation.parentKey,
-    foreignKeyAlias: fkAliases,
-    mode: relation.mode ?? 'many',
-    limit: relation.limit,
-    query: relationQuery,
+    queries: executed.flatMap((level) => level.queries),
+    results: executed.flatMap((level) => level.results),
   };
 }
 
+/**
+ * Lists a relation query tree depth-first (each query followed by its nested
+ * queries) — the order in which `assembleDrizzleRelations` expects results.
+ *
+ * @example
+ * ```ts
+ * const queries = flattenDrizzleRelationQueries(result.relationQueries);
+ * const relationRows = await Promise.all(queries.map((rq) => rq.query));
+ * const data = result.assemble(mainRows, relationRows);
+ * ```
+ */
+export function flattenDrizzleRelationQueries<TColumn>(
+  relationQueries: DrizzleRelationQuery<TColumn>[],
+): DrizzleRelationQuery<TColumn>[] {
+  return relationQueries.flatMap((rq) => [
+    rq,
+    ...flattenDrizzleRelationQueries(rq.relations ?? []),
+  ]);
+}
+
 /** Configuration object for `generatePaginationQuery`. */
 export interface GeneratePaginationQueryConfig<
   TSchema extends DataSchema,
@@ -1299,14 +4444,16 @@ export interface GeneratePaginationQueryConfig<
   TFields extends Record<string, TColumn>,
   TRelations extends readonly AnyDrizzleRelation[],
 > {
-  /** Database dialect — determines the default operator set (`'pg'` or `'mysql'`). */
+  /** Database dialect — determines the default operator set (`'pg'`, `'mysql'` or `'sqlite'`). */
   dialect: DrizzleDialect;
   /**
    * Factory that receives the generated select shape and must return a Drizzle
-   * query builder (e.g. `db.select(select).from(table)`).
+   * query builder (e.g. `db.select(select).from(table)`). Besides the mapped
+   * fields, the shape may hold SQL expressions (relation aggregate sorts,
+   * full-text scores).
    */
   buildQuery: (
-    selectShape: DrizzleSelectShape<NoInfer<TColumn>>,
+    selectShape: DrizzleSelectShape<NoInfer<TColumn> | SQL>,
   ) => DrizzleAutoQuery<InferFieldsData<NoInfer<TFields>>[]>;
   /**
    * Map from allowed field paths (used in `select`, `filters`, `sortBy`) to
@@ -1315,6 +4462,11 @@ export interface GeneratePaginationQueryConfig<
   fields: TFields & DrizzleFieldMap<TSchema, TColumn>;
   /** Relations to fetch as separate queries and assemble into parent rows. */
   relations?: TRelations;
+  /**
+   * Static condition ANDed with the client filters of the main query and
+   * applied to the count query too (e.g. `isNull(users.deletedAt)`).
+   */
+  baseWhere?: SQL;
   /**
    * When `true` (default), throws if a requested field has no mapping in `fields`.
    * Set to `false` to silently ignore unmapped fields.
@@ -1331,6 +4483,79 @@ export interface GeneratePaginationQueryConfig<
    * configured `dialect` is used.
    */
   operators?: DrizzleSqlOperatorSet;
+  /**
+   * Custom filter operators (e.g. `$regex`), consulted before the built-in
+   * ones and negated by the `not` modifier like them.
+   */
+  filterOperators?: DrizzleFilterOperators;
+  /**
+   * Languages and relevance scores of the `$fts` full-text operator. See
+   * `DrizzleFullTextSearchConfig`.
+   */
+  fullTextSearch?: DrizzleFullTextSearchConfig;
+  /**
+   * Global search value (e.g. from a `search` query parameter). It matches
+   * rows where any of `searchableFields` matches, is ANDed with the filters
+   * and applies to the count query too. Blank values are ignored.
+   */
+  search?: string;
+  /**
+   * Field paths matched by `search`, relation fields included (through
+   * `EXISTS`). Required when `search` is set.
+   */
+  searchableFields?: readonly DrizzleSearchableField[];
+  /**
+   * Codec used to decode incoming cursor tokens and encode the returned
+   * `cursor` (`CURSOR` pagination only). Defaults to `createCursorCodec()`
+   * (unsigned base64url JSON); pass `createCursorCodec({ secret })` to make
+   * tokens tamper-evident.
+   */
+  cursorCodec?: DrizzleCursorCodec;
+  /**
+   * When `true`, `CURSOR` pagination fetches `limit + 1` rows to find out
+   * whether another page exists in the reading direction. The extra row is
+   * dropped before relation scoping and assembly, and the metadata reports
+   * `hasNextPage` and `hasPreviousPage` (with `nextCursor: null` on the last
+   * page, `previousCursor: null` on the first). Defaults to `false`.
+   */
+  detectNextPage?: boolean;
+  /**
+   * How `LIMIT_OFFSET` totals are computed — `'exact'` (default),
+   * `'estimated'`, `'window'` or `'none'`. See `DrizzleCountMode`.
+   */
+  count?: DrizzleCountMode;
+  /**
+   * Table whose catalog row estimate is reported by `count: 'estimated'`.
+   * Defaults to the table of the mapped columns when they all belong to one
+   * table; otherwise (e.g. columns of joined tables) the count is exact.
+   */
+  estimateTable?: Table;
+  /**
+   * How the `COUNT(*)` query is built — `'simple'` (default), `'subquery'`
+   * or `'distinct'`. See `DrizzleCountStrategy`.
+   */
+  countStrategy?: DrizzleCountStrategy;
+  /** Primary key column(s) counted by `countStrategy: 'distinct'`. */
+  countDistinctKey?: DrizzleSqlColumn | DrizzleSqlColumn[];
+  /**
+   * Factory for the count query, used instead of `buildQuery` (e.g. to drop
+   * joins that do not affect the count). Receives `{ count }` and must return
+   * a Drizzle query builder; the WHERE clause is applied on top of it.
+   */
+  buildCountQuery?: (countSelect: DrizzleSelectShape<SQL<number>>) => DrizzleAutoQuery;
+  /**
+   * How `or` groups mixing main-table and relation fields are handled —
+   * `'reject'` (default) or `'exists'`. See `DrizzleMixedOrFilterMode`.
+   */
+  mixedOrFilters?: DrizzleMixedOrFilterMode;
+  /**
+   * Maximum number of parent keys scoping one relation query in
+   * `execute()`. Larger pages run one query per chunk of keys, which keeps
+   * each query under the bind-parameter limits. Defaults to `1000`.
+   */
+  relationChunkSize?: number;
+  /** Maximum number of relation queries `execute()` runs at the same time. Defaults to `4`. */
+  relationConcurrency?: number;
 }
 
 /**
@@ -1380,7 +4605,7 @@ export function generatePaginationQuery<
   TFields extends Record<string, TColumn>,
   const TRelations extends readonly AnyDrizzleRelation[],
 >(
-  parsed: PaginationPayload<TSchema, 'LIMIT_OFFSET'>,
+  parsed: DrizzlePaginationPayload<TSchema, 'LIMIT_OFFSET'>,
   config: GeneratePaginationQueryConfig<TSchema, TColumn, TFields, TRelations>,
 ): DrizzlePaginationResult<TColumn, TFields, TRelations, 'LIMIT_OFFSET'>;
 
@@ -1390,7 +4615,7 @@ export function generatePaginationQuery<
   TFields extends Record<string, TColumn>,
   const TRelations extends readonly AnyDrizzleRelation[],
 >(
-  parsed: PaginationPayload<TSchema, 'CURSOR'>,
+  parsed: DrizzlePaginationPayload<TSchema, 'CURSOR'>,
   config: GeneratePaginationQueryConfig<TSchema, TColumn, TFields, TRelations>,
 ): DrizzlePaginationResult<TColumn, TFields, TRelations, 'CURSOR'>;
 
@@ -1401,7 +4626,7 @@ export function generatePaginationQuery<
   const TRelations extends readonly AnyDrizzleRelation[],
   TType extends PaginationType = PaginationType,
 >(
-  parsed: PaginationPayload<TSchema, TType>,
+  parsed: DrizzlePaginationPayload<TSchema, TType>,
   config: GeneratePaginationQueryConfig<TSchema, TColumn, TFields, TRelations>,
 ): DrizzlePaginationResult<TColumn, TFields, TRelations, TType>;
 
@@ -1411,81 +4636,201 @@ export function generatePaginationQuery<
   TFields extends Record<string, TColumn>,
   const TRelations extends readonly AnyDrizzleRelation[],
 >(
-  parsed: PaginationPayload<TSchema>,
+  parsed: DrizzlePaginationPayload<TSchema>,
   config: GeneratePaginationQueryConfig<TSchema, TColumn, TFields, TRelations>,
 ): DrizzlePaginationResult<TColumn, TFields, TRelations> {
-  const operators = config.operators ?? getOperatorsForDialect(config.dialect);
   const aliasBuilder = config.selectAlias ?? defaultSelectAlias;
   const strictFieldMapping = config.strictFieldMapping ?? true;
-  // @ts-expect-error -- empty array is a valid runtime fallback for TRelations
-  const relations: TRelations = config.relations ?? [];
+  const cursorCodec = config.cursorCodec ?? createCursorCodec();
+  const countMode = config.count ?? 'exact';
+  const relationExecution = resolveRelationExecutionOptions(config);
+  // `defineMorphTo` relations are queried through their targets.
+  const relations = expandMorphTargets(config.relations ?? []);
+  const mainFieldMap: DrizzleFieldMap<DataSchema, DrizzleSqlColumn> = config.fields;
+  assertJsonFieldDialects(config.dialect, mainFieldMap, relations);
+  const operators = resolveOperators(config, mainFieldMap, relations);
   const relationNames = relations.map((r) => r.relationName);
 
   // ── Partition the parsed pagination ─────────────────────────────
   const pagination = parsed;
 
+  // `or` groups mixing scopes cannot be routed per scope without changing
+  // their meaning: reject them, or compile them with EXISTS subqueries.
+  const { filters, mixedGroups } = pagination.filters
+    ? extractMixedScopeOrGroups(pagination.filters, relationNames)
+    : { filters: undefined, mixedGroups: [] };
+  const [firstMixedGroup] = mixedGroups;
+  if (firstMixedGroup && (config.mixedOrFilters ?? 'reject') === 'reject') {
+    throw new MixedFilterScopeError(collectFilterFields(firstMixedGroup));
+  }
+
   // Remove relation-prefixed paths from the main select.
   const mainSelect = pagination.select
     ? pagination.select.filter((fp) => !belongsToAnyRelation(`${fp}`, relationNames))
     : undefined;
 
   // Remove relation-prefixed filters from the main query.
-  const mainFilters = pagination.filters
-    ? rewriteWhereNodeWithoutRelations(pagination.filters, relationNames)
+  const mainFilters = filters
+    ? rewriteWhereNodeWithoutRelations(filters, relationNames)
     : undefined;
 
-  // Remove relation-prefixed sort items from the main query.
+  // The global search is a parent filter; its `$fts` matches rank scores too.
+  const searchFilter = buildSearchFilter(config.search, config.searchableFields);
+  const scoredFilters: DrizzleWhereNode | undefined =
+    searchFilter && mainFilters
+      ? { type: 'and', items: [mainFilters, searchFilter] }
+      : (mainFilters ?? searchFilter);
+
+  // Relation aggregates sort the parents through correlated subqueries.
+  const relationSort = buildRelationSortFields(
+    (pagination.sortBy ?? []).map((sortItem) => ({ property: `${sortItem.property}` })),
+    relations,
+    filters,
+    operators,
+    strictFieldMapping,
+  );
+  const mainFields: DrizzleFieldMap<TSchema, TColumn | SQL> = {
+    ...config.fields,
+    ...relationSort.fields,
+    ...buildFullTextScoreFields(config, mainFieldMap, scoredFilters),
+  };
+
+  // Remove the other relation-prefixed sort items from the main query.
   const mainSortBy = pagination.sortBy
     ? pagination.sortBy.filter(
-        (sortItem) => !belongsToAnyRelation(`${sortItem.property}`, relationNames),
+        (sortItem) =>
+          `${sortItem.property}` in relationSort.fields ||
+          !belongsToAnyRelation(`${sortItem.property}`, relationNames),
       )
     : undefined;
 
   // Inject parent key columns (needed for assembling).
   const parentKeyFields: DrizzleSelectShape<DrizzleSqlColumn> = {};
   for (const relation of relations) {
-    const parentKeys = toArray(relation.parentKey);
-    const pkAliases = collectAliases(buildPkAliases(relation.relationName, parentKeys));
-    for (let i = 0; i < parentKeys.length; i++) {
-      const alias = pkAliases[i];
-      const col = parentKeys[i];
-      if (alias !== undefined && col !== undefined) {
-        parentKeyFields[alias] = col;
-      }
-    }
+    if (relation.strategy === 'json') continue;
+    addParentKeysToSelect(parentKeyFields, relation);
   }
 
   // Build the main pagination clauses (without relation fields).
-  const mainPagination: PaginationPayload<DataSchema> = {
+  const mainPagination: DrizzlePaginationPayload<DataSchema> = {
     ...pagination,
     select: mainSelect,
     filters: mainFilters,
     sortBy: mainSortBy && mainSortBy.length > 0 ? mainSortBy : undefined,
   };
 
-  const clauses = buildDrizzleClausesFromPagination<TSchema, TColumn, SQL, SQL>(mainPagination, {
-    fields: config.fields,
-    operators,
-    selectAlias: aliasBuilder,
-    strictFieldMapping,
-  });
+  const clauses = buildDrizzleClausesFromPagination<TSchema, TColumn | SQL, SQL, SQL>(
+    mainPagination,
+    {
+      fields: mainFields,
+      operators,
+      selectAlias: aliasBuilder,
+      strictFieldMapping,
+      cursorCodec,
+      cursorValueColumns: relationSort.valueColumns,
+      cursorNullFlags: relationSort.nullFlags,
+    },
+  );
 
   // Inject parent key columns into the select shape.
   Object.assign(clauses.select, parentKeyFields);
 
-  // Inject the cursor property column so that cursor metadata can always be
-  // computed, even when the client did not explicitly select the field.
-  if (clauses.cursorProperty) {
-    const cursorAlias = aliasBuilder(clauses.cursorProperty);
+  // Filters of `filterMode: 'parent'` relations and mixed-scope `or` groups
+  // filter the parent rows.
+  const parentFilters: SQL[] = [];
+  for (const relation of relations) {
+    if (relation.filterMode !== 'parent' || !filters) continue;
+    const nestedNames = (relation.relations ?? []).map((nested) => nested.relationName);
+    const relationFilters = rewriteWhereNodeForRelation(filters, relation.relationName);
+    const ownFilters = relationFilters
+      ? rewriteWhereNodeWithoutRelations(relationFilters, nestedNames)
+      : undefined;
+    const parentFilter = ownFilters
+      ? buildRelationParentFilter(ownFilters, relation, operators, strictFieldMapping)
+      : undefined;
+    if (parentFilter) parentFilters.push(parentFilter);
+  }
+  for (const mixedGroup of mixedGroups) {
+    const mixedFilter = buildMixedScopeFilter(
+      mixedGroup,
+      mainFieldMap,
+      relations,
+      operators,
+      strictFieldMapping,
+    );
+    if (mixedFilter) parentFilters.push(mixedFilter);
+  }
+  // Searchable fields are server config: an unmapped one is always an error.
+  const searchWhere = searchFilter
+    ? buildMixedScopeFilter(searchFilter, mainFieldMap, relations, operators, true)
+    : undefined;
+  if (searchWhere) parentFilters.push(searchWhere);
+  if (parentFilters.length > 0) {
+    clauses.where = clauses.where
+      ? andSql(clauses.where, ...parentFilters)
+      : andSql(...parentFilters);
+  }
+
+  // The static `baseWhere` applies to the page and count queries alike.
+  if (config.baseWhere) {
+    clauses.where = clauses.where ? andSql(config.baseWhere, clauses.where) : config.baseWhere;
+  }
+
+  // Inject every keyset column so that cursor metadata can always be
+  // computed, even when the client did not explicitly select the fields.
+  for (const cursorProperty of clauses.cursorProperties ?? []) {
+    const cursorAlias = aliasBuilder(cursorProperty);
     if (!(cursorAlias in clauses.select)) {
-      const cursorCol = config.fields[clauses.cursorProperty];
+      const cursorCol = mainFields[cursorProperty];
       if (cursorCol) {
         clauses.select[cursorAlias] = cursorCol;
       }
     }
   }
 
-  let query: DrizzleDynamicQuery = config.buildQuery(clauses.select).$dynamic();
+  const countOptions: CountQueryOptions<TColumn | SQL> = {
+    buildQuery: config.buildQuery,
+    buildCountQuery: config.buildCountQuery,
+    strategy: config.countStrategy ?? 'simple',
+    distinctKey: config.countDistinctKey ? toArray(config.countDistinctKey) : [],
+    dialect: config.dialect,
+    // Snapshot before the window column is added.
+    select: { ...clauses.select },
+  };
+  if (countOptions.strategy === 'distinct' && countOptions.distinctKey.length === 0) {
+    throw new DrizzlePaginationError('countStrategy "distinct" requires countDistinctKey');
+  }
+  // `count(*) over()` counts the rows of the page query: joined rows, not parents.
+  if (countMode === 'window' && countOptions.strategy === 'distinct') {
+    throw new DrizzlePaginationError(
+      'count "window" cannot be combined with countStrategy "distinct"',
+    );
+  }
+
+  // `strategy: 'json'` relations are embedded in the main select.
+  const relationRequest: RelationRequest = {
+    select: pagination.select?.map(String),
+    filters,
+    sortBy: pagination.sortBy?.map((s) => ({ property: `${s.property}`, direction: s.direction })),
+  };
+  addJsonRelationsToSelect(
+    clauses.select,
+    relationRequest,
+    relations,
+    config.dialect,
+    operators,
+    aliasBuilder,
+    strictFieldMapping,
+  );
+
+  // Window count: the total is read from the first row of the page. The
+  // column is internal, so it stays out of the returned `clauses.select`.
+  const usesWindowCount = parsed.type === 'LIMIT_OFFSET' && countMode === 'window';
+  const pageSelectShape = usesWindowCount
+    ? { ...clauses.select, [WINDOW_COUNT_ALIAS]: sql<number>`count(*) over()` }
+    : clauses.select;
+
+  let query: DrizzleDynamicQuery = config.buildQuery(pageSelectShape).$dynamic();
 
   if (clauses.where) {
     query = query.where(clauses.where);
@@ -1493,16 +4838,20 @@ export function generatePaginationQuery<
   if (clauses.orderBy && clauses.orderBy.length > 0) {
     query = query.orderBy(...clauses.orderBy);
   }
+  // Fetch one sentinel row past the page to detect whether a next page exists.
+  const probesNextPage =
+    parsed.type === 'CURSOR' ? config.detectNextPage === true : countMode === 'none';
+  const probeLimit = probesNextPage ? clauses.limit : undefined;
   if (typeof clauses.limit === 'number') {
-    query = query.limit(clauses.limit);
+    query = query.limit(probeLimit === undefined ? clauses.limit : probeLimit + 1);
   }
   if (typeof clauses.offset === 'number') {
     query = query.offset(clauses.offset);
   }
 
   // ── Build relation queries ──────────────────────────────────────
-  const relationQueries = relations.map((relation) =>
-    buildSingleRelationQuery(pagination, relation, operators, aliasBuilder, strictFieldMapping),
+  const relationQueries = relations.flatMap((relation) =>
+    buildRelationQueries(relationRequest, relation, operators, aliasBuilder, strictFieldMapping),
   );
 
   // ── assemble / execute helpers ──────────────────────────────────
@@ -1513,58 +4862,126 @@ export function generatePaginationQuery<
     relationResults: Record<string, unknown>[][],
   ): AssembledRow[] =>
     coerceAssembledRows<AssembledRow>(
-      assembleDrizzleRelations(mainRows, relationQueries, relationResults),
+      assembleDrizzleRelations(
+        // Rows of `query` carry the window count column.
+        usesWindowCount ? extractWindowCount(mainRows).rows : mainRows,
+        relationQueries,
+        relationResults,
+      ),
     );
 
   type ExecuteResult = DrizzlePaginationExecuteResult<TFields, TRelations>;
 
+  const countTotalItems = async (
+    windowTotal?: number,
+  ): Promise<{
+    totalItems: number;
+    countMode: 'exact' | 'estimated';
+  }> => {
+    if (windowTotal !== undefined) return { totalItems: windowTotal, countMode: 'exact' };
+    if (countMode === 'estimated' && !clauses.where) {
+      const estimate = await executeEstimatedCountQuery(
+        config.buildQuery,
+        config.dialect,
+        config.fields,
+        config.estimateTable,
+      );
+      if (estimate !== undefined) return { totalItems: estimate, countMode: 'estimated' };
+    }
+    const totalItems = await executeCountQuery(countOptions, clauses.where);
+    return { totalItems, countMode: 'exact' };
+  };
+
   const execute = async (): Promise<ExecuteResult> => {
     // Start count query early so it runs in parallel with the main query.
-    const countPromise: PromiseLike<number> =
-      parsed.type === 'LIMIT_OFFSET'
-        ? executeCountQuery(config.buildQuery, clauses.where)
-        : Promise.resolve(0);
+    const countPromise =
+      parsed.type === 'LIMIT_OFFSET' && (countMode === 'exact' || countMode === 'estimated')
+        ? countTotalItems()
+        : undefined;
 
     // Execute main query first to obtain parent IDs for relation scoping.
-    const mainRows: Record<string, unknown>[] = await query;
-
-    // Build scoped relation queries (filtered by parent IDs).
-    const scopedQueries = relations.map((relation) => {
-      const scope = buildRelationScope(
-        mainRows,
-        relation.relationName,
-        relation.parentKey,
-        relation.foreignKey,
-        operators,
-      );
-      return buildSingleRelationQuery(
-        pagination,
-        relation,
-        operators,
-        aliasBuilder,
-        strictFieldMapping,
-        scope,
-      );
-    });
-
-    const scopedRelationResults =
-      scopedQueries.length > 0 ? await Promise.all(scopedQueries.map((rq) => rq.query)) : [];
+    const rawRows: Record<string, unknown>[] = await query;
+    const { totalItems: windowTotal, rows: fetchedRows } = usesWindowCount
+      ? extractWindowCount(rawRows)
+      : { totalItems: undefined, rows: rawRows };
+    // Drop the sentinel row so relations are never fetched for it.
+    const hasMoreRows = probeLimit !== undefined && fetchedRows.length > probeLimit;
+    const pageRows = hasMoreRows ? fetchedRows.slice(0, probeLimit) : fetchedRows;
+    // A "before" cursor reads rows in reverse — restore the requested order.
+    const mainRows = clauses.cursorDirection === 'before' ? [...pageRows].reverse() : pageRows;
+
+    // Run relation queries scoped by the parent IDs of each level.
+    const scoped = await executeScopedRelationQueries(
+      mainRows,
+      relationRequest,
+      relations,
+      operators,
+      aliasBuilder,
+      strictFieldMapping,
+      relationExecution,
+    );
 
     const data = coerceAssembledRows<AssembledRow>(
-      assembleDrizzleRelations(mainRows, scopedQueries, scopedRelationResults),
+      assembleDrizzleRelations(mainRows, scoped.queries, scoped.results),
     );
 
     // Build pagination metadata depending on the type.
     if (parsed.type === 'LIMIT_OFFSET') {
-      const totalItems = await countPromise;
+      if (countMode === 'none') {
+        const paginationMeta = buildLimitOffsetResponseMeta(parsed, 0);
+        return {
+          data,
+          pagination: {
+            ...paginationMeta,
+            totalItems: null,
+            totalPages: null,
+            countMode: 'none',
+            hasNextPage: hasMoreRows,
+          },
+        };
+      }
 
-      const paginationMeta = buildLimitOffsetResponseMeta(parsed, totalItems);
-      return { data, pagination: paginationMeta };
+      // An empty page carries no window count — fall back to a plain count.
+      const count = await (countPromise ?? countTotalItems(windowTotal));
+      const paginationMeta = buildLimitOffsetResponseMeta(parsed, count.totalItems);
+      return { data, pagination: { ...paginationMeta, countMode: count.countMode } };
     }
 
     // CURSOR
-    const paginationMeta = buildCursorResponseMeta(parsed, mainRows, undefined, aliasBuilder);
-    return { data, pagination: paginationMeta };
+    const paginationMeta = buildCursorResponseMeta(
+      parsed,
+      mainRows,
+      undefined,
+      aliasBuilder,
+      cursorCodec,
+    );
+    if (probeLimit === undefined) return { data, pagination: paginationMeta };
+
+    // The sentinel row lies in the reading direction: after the page for
+    // forward reads, before it for "before" cursors (whose next page is the
+    // one the cursor came from).
+    if (clauses.cursorDirection === 'before') {
+      return {
+        data,
+        pagination: {
+          ...paginationMeta,
+          hasNextPage: true,
+          hasPreviousPage: hasMoreRows,
+          previousCursor: hasMoreRows ? paginationMeta.previousCursor : null,
+        },
+      };
+    }
+    return {
+      data,
+      pagination: {
+        ...paginationMeta,
+        hasNextPage: hasMoreRows,
+        hasPreviousPage: parsed.cursor !== undefined,
+        // `cursor` mirrors `nextCursor`: no token to follow past the last page.
+        cursor: hasMoreRows ? paginationMeta.cursor : null,
+        nextCursor: hasMoreRows ? paginationMeta.nextCursor : null,
+      },
+    };
   };
 
   return { query, clauses, relationQueries, assemble, execute };
@@ -1632,6 +5049,15 @@ export function generateSelectQuery<
     strictFieldMapping?: boolean;
     /** Custom alias generator for select keys. Defaults to replacing dots with underscores. */
     selectAlias?: (fieldPath: string) => string;
+    /**
+     * SQL dialect, required by relations using `strategy: 'json'`. Composite
+     * parent keys are scoped with row-value `IN` when it is set.
+     */
+    dialect?: DrizzleDialect;
+    /** Maximum number of parent keys scoping one relation query. Defaults to `1000`. */
+    relationChunkSize?: number;
+    /** Maximum number of relation queries run at the same time. Defaults to `4`. */
+    relationConcurrency?: number;
   },
 ): DrizzleSelectWithRelationsResult<TSchema, TFields, TRelations, 'one'>;
 
@@ -1655,6 +5081,15 @@ export function generateSelectQuery<
     strictFieldMapping?: boolean;
     /** Custom alias generator for select keys. Defaults to replacing dots with underscores. */
     selectAlias?: (fieldPath: string) => string;
+    /**
+     * SQL dialect, required by relations using `strategy: 'json'`. Composite
+     * parent keys are scoped with row-value `IN` when it is set.
+     */
+    dialect?: DrizzleDialect;
+    /** Maximum number of parent keys scoping one relation query. Defaults to `1000`. */
+    relationChunkSize?: number;
+    /** Maximum number of relation queries run at the same time. Defaults to `4`. */
+    relationConcurrency?: number;
   },
 ): DrizzleSelectWithRelationsResult<TSchema, TFields, TRelations>;
 
@@ -1690,13 +5125,24 @@ export function generateSelectQuery<
      * Defaults to replacing dots with underscores (`"posts_title"`).
      */
     selectAlias?: (fieldPath: string) => string;
+    /**
+     * SQL dialect, required by relations using `strategy: 'json'`. Composite
+     * parent keys are scoped with row-value `IN` when it is set.
+     */
+    dialect?: DrizzleDialect;
+    /** Maximum number of parent keys scoping one relation query. Defaults to `1000`. */
+    relationChunkSize?: number;
+    /** Maximum number of relation queries run at the same time. Defaults to `4`. */
+    relationConcurrency?: number;
   },
 ): DrizzleSelectWithRelationsResult<TSchema, TFields, TRelations, SelectResponseType> {
   const aliasBuilder = config.selectAlias ?? defaultSelectAlias;
   const strictFieldMapping = config.strictFieldMapping ?? true;
-  // @ts-expect-error -- empty array is a valid runtime fallback for TRelations
-  const relations: TRelations = config.relations ?? [];
+  const relationExecution = resolveRelationExecutionOptions(config);
+  // `defineMorphTo` relations are queried through their targets.
+  const relations = expandMorphTargets(config.relations ?? []);
   const relationNames = relations.map((r) => r.relationName);
+  if (config.dialect) assertJsonFieldDialects(config.dialect, config.fields, relations);
 
   // ── Partition select paths ──────────────────────────────────────
   const mainSelect = parsed.fields.filter((fp) => !belongsToAnyRelation(`${fp}`, relationNames));
@@ -1712,18 +5158,27 @@ export function generateSelectQuery<
   // Inject parent key columns (needed for assembling).
   const parentKeyFields: DrizzleSelectShape<DrizzleSqlColumn> = {};
   for (const relation of relations) {
-    const parentKeys = toArray(relation.parentKey);
-    const pkAliases = collectAliases(buildPkAliases(relation.relationName, parentKeys));
-    for (let i = 0; i < parentKeys.length; i++) {
-      const alias = pkAliases[i];
-      const col = parentKeys[i];
-      if (alias !== undefined && col !== undefined) {
-        parentKeyFields[alias] = col;
-      }
-    }
+    if (relation.strategy === 'json') continue;
+    addParentKeysToSelect(parentKeyFields, relation);
   }
   Object.assign(mainSelectShape, parentKeyFields);
 
+  // Operators for building relation scope filters (eq / inArray are dialect-independent).
+  const scopeOperators = createPgDrizzleOperators();
+
+  // `strategy: 'json'` relations are embedded in the main select.
+  const selectPaths = parsed.fields.map(String);
+  const relationRequest: RelationRequest = { select: selectPaths };
+  addJsonRelationsToSelect(
+    mainSelectShape,
+    relationRequest,
+    relations,
+    config.dialect,
+    scopeOperators,
+    aliasBuilder,
+    strictFieldMapping,
+  );
+
   let query: DrizzleDynamicQuery = config.buildQuery(mainSelectShape).$dynamic();
 
   // When responseType is 'one', limit to a single row.
@@ -1731,13 +5186,15 @@ export function generateSelectQuery<
     query = query.limit(1);
   }
 
-  // Operators for building relation scope filters (eq / inArray are dialect-independent).
-  const scopeOperators = createPgDrizzleOperators();
-
   // ── Build relation queries (select-only, no filters/sort) ───────
-  const selectPaths = parsed.fields.map(String);
-  const relationQueries = relations.map((relation) =>
-    buildSelectOnlyRelationQuery(selectPaths, relation, aliasBuilder, strictFieldMapping),
+  const relationQueries = relations.flatMap((relation) =>
+    buildRelationQueries(
+      relationRequest,
+      relation,
+      scopeOperators,
+      aliasBuilder,
+      strictFieldMapping,
+    ),
   );
 
   // ── assemble / execute helpers ──────────────────────────────────
@@ -1756,29 +5213,19 @@ export function generateSelectQuery<
     // Execute main query first to obtain parent IDs for relation scoping.
     const mainRows: Record<string, unknown>[] = await query;
 
-    // Build scoped relation queries (filtered by parent IDs).
-    const scopedQueries = relations.map((relation) => {
-      const scope = buildRelationScope(
-        mainRows,
-        relation.relationName,
-        relation.parentKey,
-        relation.foreignKey,
-        scopeOperators,
-      );
-      return buildSelectOnlyRelationQuery(
-        selectPaths,
-        relation,
-        aliasBuilder,
-        strictFieldMapping,
-        scope,
-      );
-    });
-
-    const scopedRelationResults =
-      scopedQueries.length > 0 ? await Promise.all(scopedQueries.map((rq) => rq.query)) : [];
+    // Run relation queries scoped by the parent IDs of each level.
+    const scoped = await executeScopedRelationQueries(
+      mainRows,
+      relationRequest,
+      relations,
+      scopeOperators,
+      aliasBuilder,
+      strictFieldMapping,
+      relationExecution,
+    );
 
     const rows = coerceAssembledRows<AssembledRow>(
-      assembleDrizzleRelations(mainRows, scopedQueries, scopedRelationResults),
+      assembleDrizzleRelations(mainRows, scoped.queries, scoped.results),
     );
 
     if (parsed.responseType === 'one') {
@@ -1821,13 +5268,16 @@ function coerceAssembledRows<TRow extends Record<string, unknown>>(
  * nested objects.
  *
  * For each parent row, looks up the matching child rows via the parent-key /
- * foreign-key link and attaches them as an array property.
+ * foreign-key link and attaches them as an array property. Nested relations
+ * are assembled into their parent relation rows first, recursively.
  *
  * @param mainRows      - Results from the main pagination query.
  * @param relationQueries - The `relationQueries` array returned by
  *                          `generatePaginationQuery`.
  * @param relationResults - An array of result arrays, one per relation query,
- *                          **in the same order** as `relationQueries`.
+ *                          **in the same order** as
+ *                          `flattenDrizzleRelationQueries(relationQueries)`
+ *                          (which is `relationQueries` itself without nesting).
  * @returns A new array of main rows with relation data attached.
  *
  * @example
@@ -1841,16 +5291,31 @@ export function assembleDrizzleRelations(
   relationQueries: DrizzleRelationQuery<unknown>[],
   relationResults: Record<string, unknown>[][],
 ): Record<string, unknown>[] {
-  if (relationQueries.length !== relationResults.length) {
+  const expectedResults = flattenDrizzleRelationQueries(relationQueries).length;
+  if (expectedResults !== relationResults.length) {
     throw new Error(
-      `Mismatch: ${relationQueries.length} relation queries ` +
+      `Mismatch: ${expectedResults} relation queries ` +
         `but ${relationResults.length} result arrays`,
     );
   }
 
+  // Results are depth-first: each query's rows are followed by the rows of
+  // its nested queries, which are assembled into them first.
+  let resultIndex = 0;
+  const relationRows = relationQueries.map((rq) => {
+    const rows = relationResults[resultIndex] ?? [];
+    const nestedQueries = rq.relations ?? [];
+    const nestedCount = flattenDrizzleRelationQueries(nestedQueries).length;
+    const nestedResults = relationResults.slice(resultIndex + 1, resultIndex + 1 + nestedCount);
+    resultIndex += 1 + nestedCount;
+    return nestedQueries.length > 0
+      ? assembleDrizzleRelations(rows, nestedQueries, nestedResults)
+      : rows;
+  });
+
   // Pre-index child rows by their foreign key value for O(1) lookup.
   const indexedRelations = relationQueries.map((rq, i) => {
-    const childRows = relationResults[i] ?? [];
+    const childRows = relationRows[i] ?? [];
     const grouped = new Map<unknown, Record<string, unknown>[]>();
     const fkAliasList = collectAliases(rq.foreignKeyAlias);
 
@@ -1874,15 +5339,9 @@ export function assembleDrizzleRelations(
       }
     }
 
-    return { relationName: rq.relationName, grouped };
+    return grouped;
   });
 
-  // Index by relation name for O(1) lookup per relation per row.
-  const indexedByName = new Map<string, Map<unknown, Record<string, unknown>[]>>();
-  for (const ir of indexedRelations) {
-    indexedByName.set(ir.relationName, ir.grouped);
-  }
-
   // Collect internal parent-key alias names so we can omit them from output.
   const pkAliasSet = new Set<string>();
   for (const rq of relationQueries) {
@@ -1890,6 +5349,7 @@ export function assembleDrizzleRelations(
     const parentKeys = toArray(rq.parentKey);
     const pkAliases = collectAliases(buildPkAliases(rq.relationName, parentKeys));
     for (const a of pkAliases) pkAliasSet.add(a);
+    if (rq.morphType) pkAliasSet.add(rq.morphType.alias);
   }
 
   return mainRows.map((row) => {
@@ -1903,7 +5363,14 @@ export function assembleDrizzleRelations(
     }
 
     // Attach relation data (array or single object depending on mode).
-    for (const rq of relationQueries) {
+    relationQueries.forEach((rq, i) => {
+      // Parents of another type are left to the morphTo target of their type.
+      const morphType = rq.morphType;
+      if (morphType && !morphType.values.some((type) => type === row[morphType.alias])) {
+        if (!(rq.relationName in result)) result[rq.relationName] = null;
+        return;
+      }
+
       const parentKeys = toArray(rq.parentKey);
       const pkAliases = collectAliases(buildPkAliases(rq.relationName, parentKeys));
       const pkRow: Record<string, unknown> = {};
@@ -1911,8 +5378,12 @@ export function assembleDrizzleRelations(
 
       const firstPkAlias = pkAliases[0];
       if (firstPkAlias === undefined || !isKeyValid(firstPkAlias, pkRow)) {
-        result[rq.relationName] = rq.mode === 'one' ? null : [];
-        continue;
+        if (rq.aggregates) {
+          for (const output of rq.aggregates) result[output.key] = output.emptyValue;
+        } else {
+          result[rq.relationName] = rq.mode === 'one' ? null : [];
+        }
+        return;
       }
 
       // Build the lookup key using the same compositeKey approach on PK aliases.
@@ -1927,8 +5398,16 @@ export function assembleDrizzleRelations(
         lookupKey = JSON.stringify(pkAliases.map((a) => row[a]));
       }
 
-      const grouped = indexedByName.get(rq.relationName);
-      let children = grouped?.get(lookupKey) ?? [];
+      let children = indexedRelations[i]?.get(lookupKey) ?? [];
+
+      // Aggregate queries return one grouped row per parent.
+      if (rq.aggregates) {
+        const group = children[0];
+        for (const output of rq.aggregates) {
+          result[output.key] = group?.[output.alias] ?? output.emptyValue;
+        }
+        return;
+      }
 
       // Apply per-parent limit when configured.
       if (rq.limit !== undefined && rq.limit > 0 && children.length > rq.limit) {
@@ -1936,7 +5415,7 @@ export function assembleDrizzleRelations(
       }
 
       result[rq.relationName] = rq.mode === 'one' ? (children[0] ?? null) : children;
-    }
+    });
 
     return result;
   });
@@ -1959,9 +5438,9 @@ export function assembleDrizzleRelations(
  * ```
  */
 export function buildLimitOffsetResponseMeta<TSchema extends DataSchema>(
-  parsed: PaginationPayload<TSchema, 'LIMIT_OFFSET'>,
+  parsed: DrizzlePaginationPayload<TSchema, 'LIMIT_OFFSET'>,
   totalItems: number,
-): LimitOffsetPaginationResponseMeta {
+): LimitOffsetResponseMeta {
   const pagination = parsed;
   const safePage = typeof pagination.page === 'number' && pagination.page > 0 ? pagination.page : 1;
   const totalPages =
@@ -1983,9 +5462,15 @@ export function buildLimitOffsetResponseMeta<TSchema extends DataSchema>(
 /**
  * Builds the `pagination` metadata for a `CURSOR` response.
  *
- * Extracts the cursor value from the last row of the result set so the client
- * can request the next page. If there are no rows, the incoming cursor is
- * returned as-is (or `0` as a fallback).
+ * Encodes the keyset of the last row of the result set (the sorted
+ * properties plus `cursorProperty`) into an opaque `nextCursor` token, and the
+ * keyset of the first row into a `previousCursor` token that reads backwards.
+ * `previousCursor` is `null` on the first page (no incoming cursor); both are
+ * `null` when there are no rows, in which case `cursor` falls back to the
+ * incoming cursor (or `0`).
+ *
+ * `rows` must be in the requested order — reverse the rows of a query built
+ * from a `'before'` cursor (see `clauses.cursorDirection`) before calling this.
  *
  * @param parsed     - The parsed cursor-pagination params.
  * @param rows       - The rows returned by the main paginated query.
@@ -1994,43 +5479,57 @@ export function buildLimitOffsetResponseMeta<TSchema extends DataSchema>(
  *                      `defaultSelectAlias` when no `selectAlias` is given).
  * @param selectAlias - Alias builder matching the one used to build the query.
  *                      When omitted, `defaultSelectAlias` is used.
+ * @param cursorCodec - Codec used to encode the tokens. Must match the one
+ *                      used to build the query. Defaults to `createCursorCodec()`.
  *
  * @example
  * ```ts
  * const meta = buildCursorResponseMeta(parsed, rows, 'id');
- * // => { itemsPerPage: 10, cursor: 42 }
+ * // => { itemsPerPage: 10, cursor: 'eyJ2…', nextCursor: 'eyJ2…', previousCursor: 'eyJ2…' }
  * ```
  */
 export function buildCursorResponseMeta<TSchema extends DataSchema>(
-  parsed: PaginationPayload<TSchema, 'CURSOR'>,
+  parsed: DrizzlePaginationPayload<TSchema, 'CURSOR'>,
   rows: Record<string, unknown>[],
   cursorField?: string,
   selectAlias?: (fieldPath: string) => string,
-): CursorPaginationResponseMeta {
+  cursorCodec?: DrizzleCursorCodec,
+): DrizzleCursorPaginationResponseMeta {
   const pagination = parsed;
   const aliasBuilder = selectAlias ?? defaultSelectAlias;
-  const resolvedCursorField = cursorField ?? aliasBuilder(`${pagination.cursorProperty}`);
-
-  let nextCursor: number | string | Date;
-
-  const lastRow = rows.length > 0 ? rows[rows.length - 1] : undefined;
-  if (lastRow) {
-    const rawValue = lastRow[resolvedCursorField];
-    if (rawValue instanceof Date) {
-      nextCursor = rawValue;
-    } else if (typeof rawValue === 'number' || typeof rawValue === 'string') {
-      nextCursor = rawValue;
-    } else {
-      // Fallback: use incoming cursor or 0.
-      nextCursor = pagination.cursor ?? 0;
+  const codec = cursorCodec ?? createCursorCodec();
+  const cursorProperty = `${pagination.cursorProperty}`;
+  const resolvedCursorField = cursorField ?? aliasBuilder(cursorProperty);
+
+  const encodeRow = (
+    row: Record<string, unknown> | undefined,
+    direction: CursorDirection,
+  ): string | null => {
+    const rawValue = row?.[resolvedCursorField];
+    if (!row || rawValue === undefined || rawValue === null) return null;
+
+    // Keyset columns present in the row: sorted properties (relation sorts
+    // and unmapped fields are not selected on the main row) + cursorProperty.
+    const values: Record<string, unknown> = {};
+    for (const sortItem of pagination.sortBy ?? []) {
+      const property = `${sortItem.property}`;
+      if (property === cursorProperty) continue;
+      const alias = aliasBuilder(property);
+      if (alias in row) values[property] = row[alias];
     }
-  } else {
-    nextCursor = pagination.cursor ?? 0;
-  }
+    values[cursorProperty] = rawValue;
+    return direction === 'after' ? codec.encode({ values }) : codec.encode({ values, direction });
+  };
+
+  const nextCursor = encodeRow(rows[rows.length - 1], 'after');
+  const previousCursor = pagination.cursor === undefined ? null : encodeRow(rows[0], 'before');
 
   return {
     itemsPerPage: pagination.limit,
-    cursor: nextCursor,
+    // Fallback: the incoming cursor, or none on an empty first page.
+    cursor: nextCursor ?? pagination.cursor ?? null,
+    nextCursor,
+    previousCursor,
     sortBy: pagination.sortBy?.map((s) => ({
       property: `${s.property}`,
       direction: s.direction,